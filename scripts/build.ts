@@ -7,6 +7,7 @@ import { build } from "bunup";
 
 import pkg from "../package.json";
 import { builds, getTargetName, targetpackageName, targets } from "./bunup-builds";
+import { updateModelsSnapshot } from "./models-snapshot";
 
 export const buildTargets = async (version: string) => {
   const __filename = fileURLToPath(import.meta.url);
@@ -15,6 +16,7 @@ export const buildTargets = async (version: string) => {
 
   process.chdir(dir);
   await $`rm -rf dist`;
+  await updateModelsSnapshot();
 
   const binaries: Record<string, string> = {};
 
@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+
+// Refresh assets/models-snapshot.json, the models.dev snapshot bundled into the binary. It is only
+// used when models.dev can't be reached and no earlier download is cached on disk. The file is
+// git-ignored, every build writes its own.
+
+import path from "path";
+import { fileURLToPath } from "url";
+
+const MODELS_DEV_URL = "https://models.dev/api.json";
+
+export const updateModelsSnapshot = async () => {
+  const __filename = fileURLToPath(import.meta.url);
+  const snapshotPath = path.resolve(path.dirname(__filename), "..", "assets", "models-snapshot.json");
+
+  try {
+    const response = await fetch(MODELS_DEV_URL, { signal: AbortSignal.timeout(30_000) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    await Bun.write(snapshotPath, JSON.stringify({ fetchedAt: Date.now(), data }));
+    console.log(`✅ models.dev snapshot updated`);
+  } catch (error) {
+    // Keep whatever snapshot is already there rather than failing the build
+    if (await Bun.file(snapshotPath).exists()) {
+      console.warn(`⚠️  Couldn't update the models.dev snapshot (${error}), bundling the existing one`);
+      return;
+    }
+    // The bundler needs the file, an empty snapshot is skipped at runtime
+    await Bun.write(snapshotPath, JSON.stringify({ fetchedAt: null, data: {} }));
+    console.warn(`⚠️  Couldn't fetch a models.dev snapshot (${error}), bundling an empty one`);
+  }
+};
+
+// Allow running directly
+if (import.meta.main) {
+  await updateModelsSnapshot();
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  activeOnDay,
+  distinctReaches,
+  evaluateAchievements,
+  messageTotalReaches,
+  sessionTotalReaches,
+  streakReaches,
+  type AchievementContext,
+  type AchievementRule,
+} from "./achievements";
+import { setTimeZone } from "./utils/dates";
+import type { MessageData, SessionData } from "./types";
+
+const at = (dateKey: string) => new Date(`${dateKey}T12:00:00Z`).getTime();
+
+function message(dateKey: string, fields: Partial<MessageData> = {}): MessageData {
+  return { id: `msg_${dateKey}`, sessionID: "ses_1", role: "assistant", time: { created: at(dateKey) }, ...fields };
+}
+
+function session(dateKey: string, additions: number, deletions = 0): SessionData {
+  return {
+    id: `ses_${dateKey}`,
+    version: "1.0.0",
+    projectID: "global",
+    directory: "/tmp",
+    title: dateKey,
+    time: { created: at(dateKey), updated: at(dateKey) },
+    summary: { additions, deletions, files: 1 },
+  };
+}
+
+function context(fields: Partial<AchievementContext>): AchievementContext {
+  return { messages: [], sessions: [], dailyActivity: new Map(), ...fields };
+}
+
+function activity(...dateKeys: string[]): Map<string, number> {
+  return new Map(dateKeys.map((key) => [key, 1]));
+}
+
+// Day keys are checked in UTC so the fixtures' noon timestamps land on their own day anywhere
+beforeEach(() => setTimeZone("UTC"));
+afterEach(() => setTimeZone(undefined));
+
+describe("streakReaches", () => {
+  test("unlocks on the last day of the first long enough run", () => {
+    const rule = streakReaches(3);
+    const dailyActivity = activity("2025-01-01", "2025-01-02", "2025-01-04", "2025-01-05", "2025-01-06", "2025-01-07");
+    expect(rule(context({ dailyActivity }))).toBe("2025-01-06");
+  });
+
+  test("counts runs across the year end", () => {
+    const dailyActivity = activity("2024-12-30", "2024-12-31", "2025-01-01");
+    expect(streakReaches(3)(context({ dailyActivity }))).toBe("2025-01-01");
+  });
+
+  test("stays locked when no run is long enough", () => {
+    const dailyActivity = activity("2025-01-01", "2025-01-02", "2025-01-04");
+    expect(streakReaches(3)(context({ dailyActivity }))).toBeNull();
+  });
+});
+
+describe("messageTotalReaches", () => {
+  test("unlocks on the day the running total reaches the threshold", () => {
+    const rule = messageTotalReaches(100, (m) => m.tokens?.output ?? 0);
+    const tokens = (output: number) => ({ input: 0, output, reasoning: 0, cache: { read: 0, write: 0 } });
+    const messages = [
+      message("2025-02-01", { tokens: tokens(40) }),
+      message("2025-02-03", { tokens: tokens(59) }),
+      message("2025-02-07", { tokens: tokens(1) }),
+      message("2025-02-09", { tokens: tokens(500) }),
+    ];
+    expect(rule(context({ messages }))).toBe("2025-02-07");
+  });
+
+  test("stays locked below the threshold", () => {
+    const messages = [message("2025-02-01"), message("2025-02-02")];
+    expect(messageTotalReaches(3, () => 1)(context({ messages }))).toBeNull();
+  });
+});
+
+describe("sessionTotalReaches", () => {
+  test("sums values over sessions in order", () => {
+    const rule = sessionTotalReaches(1000, (s) => (s.summary ? s.summary.additions + s.summary.deletions : 0));
+    const sessions = [session("2025-03-01", 400), session("2025-03-02", 300, 200), session("2025-03-05", 100)];
+    expect(rule(context({ sessions }))).toBe("2025-03-05");
+  });
+
+  test("stays locked below the threshold", () => {
+    const rule = sessionTotalReaches(1000, (s) => s.summary?.additions ?? 0);
+    expect(rule(context({ sessions: [session("2025-03-01", 999)] }))).toBeNull();
+  });
+});
+
+describe("distinctReaches", () => {
+  test("unlocks when the nth distinct value first shows up", () => {
+    const rule = distinctReaches(3, (m) => m.providerID);
+    const messages = [
+      message("2025-04-01", { providerID: "anthropic" }),
+      message("2025-04-02", { providerID: "anthropic" }),
+      message("2025-04-03", { providerID: "openai" }),
+      message("2025-04-04"),
+      message("2025-04-05", { providerID: "openai" }),
+      message("2025-04-06", { providerID: "google" }),
+    ];
+    expect(rule(context({ messages }))).toBe("2025-04-06");
+  });
+
+  test("stays locked with too few distinct values", () => {
+    const messages = [message("2025-04-01", { providerID: "anthropic" }), message("2025-04-02", { providerID: "anthropic" })];
+    expect(distinctReaches(2, (m) => m.providerID)(context({ messages }))).toBeNull();
+  });
+});
+
+describe("activeOnDay", () => {
+  test("unlocks on the earliest matching active day", () => {
+    const rule = activeOnDay((dateKey) => dateKey.endsWith("-12-31"));
+    const dailyActivity = activity("2025-12-31", "2023-06-01", "2024-12-31");
+    expect(rule(context({ dailyActivity }))).toBe("2024-12-31");
+  });
+
+  test("stays locked when no active day matches", () => {
+    const rule = activeOnDay((dateKey) => dateKey.endsWith("-02-29"));
+    expect(rule(context({ dailyActivity: activity("2024-02-28", "2024-03-01") }))).toBeNull();
+  });
+});
+
+describe("evaluateAchievements", () => {
+  test("returns unlocked rules only, earliest first, with a formatted date", () => {
+    const rules: AchievementRule[] = [
+      { id: "late", name: "Late", description: "", unlockedAt: () => "2025-06-01" },
+      { id: "locked", name: "Locked", description: "", unlockedAt: () => null },
+      { id: "early", name: "Early", description: "", unlockedAt: () => "2024-01-15" },
+    ];
+    const achievements = evaluateAchievements(context({}), rules);
+    expect(achievements.map((a) => a.id)).toEqual(["early", "late"]);
+    expect(achievements[0].formattedDate).toBe("Jan 15, 2024");
+  });
+});
@@ -0,0 +1,177 @@
+import type { Achievement, MessageData, SessionData } from "./types";
+import { getModelFamily } from "./models";
+import { addDays, formatDateKey, formatDayLabel } from "./utils/dates";
+
+/** Records an achievement is checked against: the whole history up to the end of the wrapped range */
+export interface AchievementContext {
+  messages: MessageData[]; // Sorted by creation time
+  sessions: SessionData[]; // Sorted by creation time
+  dailyActivity: Map<string, number>;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  /** Day the achievement was earned on ("YYYY-MM-DD"), or null while it is locked */
+  unlockedAt: (context: AchievementContext) => string | null;
+}
+
+const dayOf = (timestamp: number) => formatDateKey(new Date(timestamp));
+
+function messageTokens(message: MessageData): number {
+  if (!message.tokens) return 0;
+  return (message.tokens.input || 0) + (message.tokens.output || 0) + (message.tokens.reasoning || 0);
+}
+
+function sessionLinesChanged(session: SessionData): number {
+  return session.summary ? session.summary.additions + session.summary.deletions : 0;
+}
+
+/** Unlocks on the day a running total over messages reaches `threshold` */
+export function messageTotalReaches(threshold: number, value: (message: MessageData) => number) {
+  return ({ messages }: AchievementContext): string | null => {
+    let total = 0;
+    for (const message of messages) {
+      total += value(message);
+      if (total >= threshold) return dayOf(message.time.created);
+    }
+    return null;
+  };
+}
+
+/** Unlocks on the day a running total over sessions reaches `threshold` */
+export function sessionTotalReaches(threshold: number, value: (session: SessionData) => number) {
+  return ({ sessions }: AchievementContext): string | null => {
+    let total = 0;
+    for (const session of sessions) {
+      total += value(session);
+      if (total >= threshold) return dayOf(session.time.created);
+    }
+    return null;
+  };
+}
+
+/** Unlocks on the day the `count`th distinct value (e.g. model) shows up */
+export function distinctReaches(count: number, value: (message: MessageData) => string | undefined) {
+  return ({ messages }: AchievementContext): string | null => {
+    const seen = new Set<string>();
+    for (const message of messages) {
+      const key = value(message);
+      if (key === undefined || seen.has(key)) continue;
+      seen.add(key);
+      if (seen.size >= count) return dayOf(message.time.created);
+    }
+    return null;
+  };
+}
+
+/** Unlocks on the last day of the first run of `days` consecutive active days */
+export function streakReaches(days: number) {
+  return ({ dailyActivity }: AchievementContext): string | null => {
+    const activeDays = Array.from(dailyActivity.keys()).sort();
+    let streak = 0;
+    for (let i = 0; i < activeDays.length; i++) {
+      streak = i > 0 && addDays(activeDays[i - 1], 1) === activeDays[i] ? streak + 1 : 1;
+      if (streak >= days) return activeDays[i];
+    }
+    return null;
+  };
+}
+
+/** Unlocks on the first day with a message whose date key (in the --tz zone) matches */
+export function activeOnDay(matches: (dateKey: string) => boolean) {
+  return ({ dailyActivity }: AchievementContext): string | null =>
+    Array.from(dailyActivity.keys()).sort().find(matches) ?? null;
+}
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: "streak-7",
+    name: "Full Week",
+    description: "Used OpenCode 7 days in a row",
+    unlockedAt: streakReaches(7),
+  },
+  {
+    id: "streak-30",
+    name: "Habit Formed",
+    description: "Used OpenCode 30 days in a row",
+    unlockedAt: streakReaches(30),
+  },
+  {
+    id: "streak-100",
+    name: "Centurion",
+    description: "Used OpenCode 100 days in a row",
+    unlockedAt: streakReaches(100),
+  },
+  {
+    id: "messages-1k",
+    name: "Chatterbox",
+    description: "Sent or received 1,000 messages",
+    unlockedAt: messageTotalReaches(1_000, () => 1),
+  },
+  {
+    id: "tokens-1m",
+    name: "Millionaire",
+    description: "Processed 1M tokens",
+    unlockedAt: messageTotalReaches(1_000_000, messageTokens),
+  },
+  {
+    id: "tokens-1b",
+    name: "Billionaire",
+    description: "Processed 1B tokens",
+    unlockedAt: messageTotalReaches(1_000_000_000, messageTokens),
+  },
+  {
+    id: "models-10",
+    name: "Model Collector",
+    description: "Used 10 different models",
+    unlockedAt: distinctReaches(10, (message) => message.modelID && getModelFamily(message.modelID)),
+  },
+  {
+    id: "providers-3",
+    name: "Polyglot",
+    description: "Used models from 3 different providers",
+    unlockedAt: distinctReaches(3, (message) => message.providerID),
+  },
+  {
+    id: "lines-10k",
+    name: "Ten Thousand Lines",
+    description: "Changed 10k lines of code",
+    unlockedAt: sessionTotalReaches(10_000, sessionLinesChanged),
+  },
+  {
+    id: "new-years-eve",
+    name: "Year-End Ship",
+    description: "Shipped on New Year's Eve",
+    unlockedAt: activeOnDay((dateKey) => dateKey.endsWith("-12-31")),
+  },
+  {
+    id: "leap-day",
+    name: "Leap of Faith",
+    description: "Coded on February 29",
+    unlockedAt: activeOnDay((dateKey) => dateKey.endsWith("-02-29")),
+  },
+];
+
+/**
+ * Check every rule and return the unlocked achievements, earliest first
+ *
+ * @param rules - Rules to check (default: ACHIEVEMENT_RULES)
+ */
+export function evaluateAchievements(
+  context: AchievementContext,
+  rules: AchievementRule[] = ACHIEVEMENT_RULES
+): Achievement[] {
+  return rules
+    .map((rule) => ({ rule, unlockedAt: rule.unlockedAt(context) }))
+    .filter((result): result is { rule: AchievementRule; unlockedAt: string } => result.unlockedAt !== null)
+    .sort((a, b) => a.unlockedAt.localeCompare(b.unlockedAt))
+    .map(({ rule, unlockedAt }) => ({
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      unlockedAt,
+      formattedDate: formatDayLabel(unlockedAt, true),
+    }));
+}
@@ -12,3 +12,9 @@ declare module "*.wasm" {
     const path: string;
     export default path;
 }
+
+// Only present after a build, see scripts/models-snapshot.ts
+declare module "*/models-snapshot.json" {
+    const snapshot: { fetchedAt: number | null; data: unknown };
+    export default snapshot;
+}
@@ -1,116 +1,205 @@
 // Data collector - reads OpenCode storage and returns raw data
 
-import { readdir } from "node:fs/promises";
-import { join } from "node:path";
-import { xdgData } from "xdg-basedir";
-import type { SessionData, MessageData, ProjectData } from "./types";
+import { delimiter } from "node:path";
+import type {
+  SessionData,
+  MessageData,
+  PartData,
+  ProjectData,
+  DataSourceSummary,
+  CollectionInfo,
+  DateRange,
+} from "./types";
+import {
+  DEFAULT_DATA_PATH,
+  getStorageReader,
+  loadFileCache,
+  type FileCache,
+  type RecordKind,
+  type StorageReader,
+} from "./storage";
+import { isTimestampInRange } from "./utils/dates";
 
-const OPENCODE_DATA_PATH = join(xdgData!, "opencode/storage");
+let dataPaths: string[] = [DEFAULT_DATA_PATH];
+let readersPromise: Promise<Map<string, StorageReader | null>> | null = null;
+let rebuildCache = false;
+let cachePromise: Promise<FileCache> | null = null;
 
-export async function checkOpenCodeDataExists(): Promise<boolean> {
-  try {
-    await readdir(OPENCODE_DATA_PATH);
-    return true;
-  } catch {
-    return false;
-  }
+// Data directory each merged record was read from, keyed by record id
+const recordSources: Record<RecordKind, Map<string, string>> = {
+  session: new Map(),
+  message: new Map(),
+  project: new Map(),
+  part: new Map(),
+};
+
+/**
+ * Resolve the OpenCode data directories to read from.
+ * `--data-dir` flags take precedence over OC_WRAPPED_DATA_DIRS, which takes precedence over the default.
+ */
+export function resolveDataPaths(flagPaths: string[] = []): string[] {
+  if (flagPaths.length > 0) return flagPaths;
+
+  const envPaths = (process.env.OC_WRAPPED_DATA_DIRS ?? "")
+    .split(delimiter)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (envPaths.length > 0) return envPaths;
+
+  return [DEFAULT_DATA_PATH];
 }
 
-export async function collectSessions(year?: number): Promise<SessionData[]> {
-  const sessionsPath = join(OPENCODE_DATA_PATH, "session");
+export function setDataPaths(paths: string[]): void {
+  dataPaths = Array.from(new Set(paths));
+  readersPromise = null;
+}
 
-  try {
-    const projectDirs = await readdir(sessionsPath);
-
-    const results = await Promise.all(
-      projectDirs.map(async (projectDir) => {
-        const projectPath = join(sessionsPath, projectDir);
-        try {
-          const sessionFiles = await readdir(projectPath);
-          return Promise.all(
-            sessionFiles
-              .filter((f) => f.endsWith(".json"))
-              .map(async (sessionFile) => {
-                try {
-                  const session = (await Bun.file(join(projectPath, sessionFile)).json()) as SessionData;
-                  if (year && new Date(session.time.created).getFullYear() !== year) return null;
-                  return session;
-                } catch {
-                  return null;
-                }
-              })
-          );
-        } catch {
-          return [];
-        }
-      })
+export function getDataPaths(): string[] {
+  return dataPaths;
+}
+
+/** Ignore the on-disk file index and re-read every file (it is rewritten afterwards) */
+export function setRebuildCache(rebuild: boolean): void {
+  rebuildCache = rebuild;
+  cachePromise = null;
+  readersPromise = null;
+}
+
+function getCache(): Promise<FileCache> {
+  cachePromise ??= loadFileCache(rebuildCache);
+  return cachePromise;
+}
+
+function getReaders(): Promise<Map<string, StorageReader | null>> {
+  readersPromise ??= getCache().then(async (cache) => {
+    const entries = await Promise.all(
+      dataPaths.map(async (path) => [path, await getStorageReader(path, { cache })] as const)
     );
+    return new Map(entries);
+  });
+  return readersPromise;
+}
 
-    return results.flat().filter((s): s is SessionData => s !== null);
-  } catch (error) {
-    throw new Error(`Failed to read sessions: ${error}`);
+async function requireReaders(): Promise<StorageReader[]> {
+  const readers = Array.from((await getReaders()).values()).filter((r): r is StorageReader => r !== null);
+  if (readers.length === 0) {
+    throw new Error("No supported OpenCode storage layout found");
   }
+  return readers;
 }
 
-export async function collectMessages(year?: number): Promise<MessageData[]> {
-  const messagesPath = join(OPENCODE_DATA_PATH, "message");
+export async function checkOpenCodeDataExists(): Promise<boolean> {
+  return Array.from((await getReaders()).values()).some((r) => r !== null);
+}
 
-  try {
-    const sessionDirs = await readdir(messagesPath);
-
-    const results = await Promise.all(
-      sessionDirs.map(async (sessionDir) => {
-        const sessionPath = join(messagesPath, sessionDir);
-        try {
-          const messageFiles = await readdir(sessionPath);
-          return Promise.all(
-            messageFiles
-              .filter((f) => f.endsWith(".json"))
-              .map(async (messageFile) => {
-                try {
-                  const message = (await Bun.file(join(sessionPath, messageFile)).json()) as MessageData;
-                  if (year && new Date(message.time.created).getFullYear() !== year) return null;
-                  return message;
-                } catch {
-                  return null;
-                }
-              })
-          );
-        } catch {
-          return [];
-        }
-      })
-    );
+/** Data directories that were requested but contain no recognizable OpenCode storage */
+export async function getMissingDataPaths(): Promise<string[]> {
+  return Array.from((await getReaders()).entries())
+    .filter(([, reader]) => reader === null)
+    .map(([path]) => path);
+}
 
-    return results.flat().filter((m): m is MessageData => m !== null);
-  } catch (error) {
-    throw new Error(`Failed to read messages: ${error}`);
+/**
+ * Merge records read from every data directory, keeping one record per id.
+ * When the same id appears in several directories the most recently updated copy wins.
+ */
+async function collectMerged<T extends { id: string }>(
+  kind: RecordKind,
+  read: (reader: StorageReader) => Promise<T[]>,
+  updatedAt: (record: T) => number
+): Promise<T[]> {
+  const readers = await requireReaders();
+  const batches = await Promise.all(readers.map(async (reader) => ({ reader, records: await read(reader) })));
+
+  const merged = new Map<string, { record: T; dataPath: string }>();
+  for (const { reader, records } of batches) {
+    for (const record of records) {
+      const existing = merged.get(record.id);
+      if (!existing || updatedAt(record) > updatedAt(existing.record)) {
+        merged.set(record.id, { record, dataPath: reader.dataPath });
+      }
+    }
+  }
+
+  const sources = recordSources[kind];
+  for (const [id, { dataPath }] of merged) {
+    sources.set(id, dataPath);
   }
+
+  return Array.from(merged.values(), ({ record }) => record);
+}
+
+export async function collectSessions(range?: DateRange): Promise<SessionData[]> {
+  const sessions = await collectMerged("session", (r) => r.readSessions(), (s) => s.time.updated ?? s.time.created);
+  if (!range) return sessions;
+  return sessions.filter((s) => isTimestampInRange(s.time.created, range));
+}
+
+export async function collectMessages(range?: DateRange): Promise<MessageData[]> {
+  const messages = await collectMerged("message", (r) => r.readMessages(), (m) => m.time.completed ?? m.time.created);
+  if (!range) return messages;
+  return messages.filter((m) => isTimestampInRange(m.time.created, range));
 }
 
 export async function collectProjects(): Promise<ProjectData[]> {
-  const projectsPath = join(OPENCODE_DATA_PATH, "project");
+  return collectMerged("project", (r) => r.readProjects(), (p) => p.time.updated ?? p.time.created);
+}
 
-  try {
-    const projectFiles = await readdir(projectsPath);
-    const jsonFiles = projectFiles.filter((f) => f.endsWith(".json"));
-
-    // Read all project files in parallel
-    const results = await Promise.all(
-      jsonFiles.map(async (projectFile) => {
-        try {
-          const filePath = join(projectsPath, projectFile);
-          const content = await Bun.file(filePath).json();
-          return content as ProjectData;
-        } catch {
-          return null; // Skip invalid JSON files
-        }
-      })
-    );
+/** Collect message parts (tool calls, text, patches), optionally limited to the given message ids */
+export async function collectParts(messageIDs?: Set<string>): Promise<PartData[]> {
+  return collectMerged(
+    "part",
+    (r) => r.readParts(messageIDs),
+    (p) => p.state?.time?.end ?? p.state?.time?.start ?? 0
+  );
+}
+
+/**
+ * Persist the file index after collecting and report how the run went
+ *
+ * @param durationMs - Wall time spent collecting records
+ */
+export async function finishCollection(durationMs: number): Promise<CollectionInfo> {
+  const cache = await getCache();
 
-    return results.filter((p): p is ProjectData => p !== null);
+  try {
+    await cache.save();
   } catch {
-    // Projects directory might not exist
-    return [];
+    // The index is only an optimization, a read-only cache directory shouldn't fail the run
   }
+
+  return {
+    durationMs,
+    filesParsed: cache.misses,
+    filesCached: cache.hits,
+  };
+}
+
+/** Count how many of the given records came from each data directory */
+export async function summarizeSources(records: {
+  sessions: SessionData[];
+  messages: MessageData[];
+  projects: ProjectData[];
+}): Promise<DataSourceSummary[]> {
+  const readers = Array.from((await getReaders()).values()).filter((r): r is StorageReader => r !== null);
+  const summaries = new Map<string, DataSourceSummary>(
+    readers.map((reader) => [
+      reader.dataPath,
+      { dataPath: reader.dataPath, storage: reader.name, sessions: 0, messages: 0, projects: 0 },
+    ])
+  );
+
+  const count = (kind: RecordKind, items: { id: string }[], field: "sessions" | "messages" | "projects") => {
+    for (const item of items) {
+      const dataPath = recordSources[kind].get(item.id);
+      const summary = dataPath ? summaries.get(dataPath) : undefined;
+      if (summary) summary[field]++;
+    }
+  };
+
+  count("session", records.sessions, "sessions");
+  count("message", records.messages, "messages");
+  count("project", records.projects, "projects");
+
+  return Array.from(summaries.values());
 }
@@ -0,0 +1,96 @@
+import * as p from "@clack/prompts";
+import { getStorageReader, type RawRecord } from "../storage";
+import { formatNumber } from "../utils/format";
+import { buildDoctorReport, countProblems, type DoctorReport } from "./validate";
+
+export * from "./validate";
+
+// How many example locations to print per problem
+const MAX_EXAMPLES = 5;
+
+function formatExamples(locations: string[]): string[] {
+  const lines = locations.slice(0, MAX_EXAMPLES).map((location) => `  ${location}`);
+  if (locations.length > MAX_EXAMPLES) {
+    lines.push(`  ...and ${formatNumber(locations.length - MAX_EXAMPLES)} more`);
+  }
+  return lines;
+}
+
+function formatReport(report: DoctorReport): string[] {
+  const lines: string[] = [];
+
+  if (report.unparseable.length > 0) {
+    lines.push(`Unparseable records:   ${formatNumber(report.unparseable.length)}`);
+    lines.push(...formatExamples(report.unparseable.map((r) => `${r.location} (${r.error})`)));
+  }
+
+  if (report.invalid.length > 0) {
+    lines.push(`Missing fields:        ${formatNumber(report.invalid.length)}`);
+    lines.push(...formatExamples(report.invalid.map((r) => `${r.location} (${r.fields.join(", ")})`)));
+  }
+
+  if (report.orphanMessages.length > 0) {
+    lines.push(`Orphan messages:       ${formatNumber(report.orphanMessages.length)}`);
+    lines.push(...formatExamples(report.orphanMessages.map((m) => `${m.location} (session ${m.sessionID})`)));
+  }
+
+  if (report.unknownVersions.size > 0) {
+    const sessions = Array.from(report.unknownVersions.values()).reduce((sum, n) => sum + n, 0);
+    lines.push(`Unknown versions:      ${formatNumber(sessions)} sessions`);
+    lines.push(
+      ...formatExamples(Array.from(report.unknownVersions.entries(), ([version, count]) => `${version} (${count} sessions)`))
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Validate every stored record in the given data directories and print a report
+ *
+ * @returns Process exit code: 0 when no problems were found, 1 otherwise
+ */
+export async function runDoctor(dataPaths: string[]): Promise<number> {
+  p.intro("opencode wrapped doctor");
+
+  const records: RawRecord[] = [];
+  let readableSources = 0;
+  let missingSources = 0;
+
+  for (const dataPath of dataPaths) {
+    const reader = await getStorageReader(dataPath);
+    if (!reader) {
+      p.log.error(`No OpenCode data found in ${dataPath}`);
+      missingSources++;
+      continue;
+    }
+
+    readableSources++;
+    const sourceRecords = await reader.scanRecords();
+    records.push(...sourceRecords);
+
+    const { counts } = buildDoctorReport(sourceRecords);
+    p.log.info(
+      `${dataPath} (${reader.name}): ${formatNumber(counts.session)} sessions, ${formatNumber(counts.message)} messages, ${formatNumber(counts.project)} projects`
+    );
+  }
+
+  if (readableSources === 0) {
+    p.outro("Nothing to check");
+    return 1;
+  }
+
+  // Built over all sources at once, so messages whose session lives in another directory aren't orphans
+  const report = buildDoctorReport(records);
+  const problems = countProblems(report);
+
+  if (problems === 0) {
+    p.outro("No problems found");
+    return missingSources > 0 ? 1 : 0;
+  }
+
+  p.note(formatReport(report).join("\n"), "Problems");
+  const noun = problems === 1 ? "problem" : "problems";
+  p.outro(`Found ${formatNumber(problems)} ${noun}, these records are skipped or miscounted in your wrapped`);
+  return 1;
+}
@@ -0,0 +1,141 @@
+import type { RawRecord, RecordKind } from "../storage";
+
+type FieldType = "string" | "number";
+
+// Fields every record needs for stats to be computed from it
+const REQUIRED_FIELDS: Partial<Record<RecordKind, [path: string, type: FieldType][]>> = {
+  session: [
+    ["id", "string"],
+    ["version", "string"],
+    ["projectID", "string"],
+    ["directory", "string"],
+    ["title", "string"],
+    ["time.created", "number"],
+    ["time.updated", "number"],
+  ],
+  message: [
+    ["id", "string"],
+    ["sessionID", "string"],
+    ["role", "string"],
+    ["time.created", "number"],
+  ],
+  project: [
+    ["id", "string"],
+    ["worktree", "string"],
+    ["time.created", "number"],
+    ["time.updated", "number"],
+  ],
+};
+
+const MESSAGE_ROLES = new Set(["user", "assistant"]);
+
+// Major versions of OpenCode whose storage format we know how to read
+const KNOWN_MAJOR_VERSIONS = new Set([0, 1]);
+
+export interface InvalidRecord {
+  kind: RecordKind;
+  location: string;
+  fields: string[];
+}
+
+export interface OrphanMessage {
+  location: string;
+  sessionID: string;
+}
+
+export interface DoctorReport {
+  counts: Record<"session" | "message" | "project", number>;
+  unparseable: RawRecord[];
+  invalid: InvalidRecord[];
+  orphanMessages: OrphanMessage[];
+  unknownVersions: Map<string, number>; // version -> session count
+}
+
+function getField(data: unknown, path: string): unknown {
+  let current = data;
+  for (const key of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Check a record against the shape stats rely on
+ *
+ * @returns Names of fields that are missing or have the wrong type
+ */
+export function findInvalidFields(kind: RecordKind, data: unknown): string[] {
+  if (!data || typeof data !== "object") {
+    return ["(record is not an object)"];
+  }
+
+  const invalid = (REQUIRED_FIELDS[kind] ?? [])
+    .filter(([path, type]) => typeof getField(data, path) !== type)
+    .map(([path]) => path);
+
+  if (kind === "message" && !invalid.includes("role") && !MESSAGE_ROLES.has(getField(data, "role") as string)) {
+    invalid.push("role");
+  }
+
+  return invalid;
+}
+
+export function isKnownStorageVersion(version: string): boolean {
+  const match = /^(\d+)\.\d+\.\d+/.exec(version);
+  return match !== null && KNOWN_MAJOR_VERSIONS.has(Number(match[1]));
+}
+
+export function buildDoctorReport(records: RawRecord[]): DoctorReport {
+  const report: DoctorReport = {
+    counts: { session: 0, message: 0, project: 0 },
+    unparseable: [],
+    invalid: [],
+    orphanMessages: [],
+    unknownVersions: new Map(),
+  };
+
+  const sessionIDs = new Set<string>();
+  const messages: { location: string; sessionID: string }[] = [];
+
+  for (const record of records) {
+    if (record.kind === "part") continue;
+    report.counts[record.kind]++;
+
+    if (record.error !== undefined) {
+      report.unparseable.push(record);
+      continue;
+    }
+
+    const fields = findInvalidFields(record.kind, record.data);
+    if (fields.length > 0) {
+      report.invalid.push({ kind: record.kind, location: record.location, fields });
+    }
+
+    const id = getField(record.data, "id");
+    if (record.kind === "session") {
+      if (typeof id === "string") sessionIDs.add(id);
+
+      const version = getField(record.data, "version");
+      if (typeof version === "string" && !isKnownStorageVersion(version)) {
+        report.unknownVersions.set(version, (report.unknownVersions.get(version) || 0) + 1);
+      }
+    }
+
+    if (record.kind === "message") {
+      const sessionID = getField(record.data, "sessionID");
+      if (typeof sessionID === "string") {
+        messages.push({ location: record.location, sessionID });
+      }
+    }
+  }
+
+  report.orphanMessages = messages.filter((m) => !sessionIDs.has(m.sessionID));
+
+  return report;
+}
+
+export function countProblems(report: DoctorReport): number {
+  const unknownVersionSessions = Array.from(report.unknownVersions.values()).reduce((sum, n) => sum + n, 0);
+  return report.unparseable.length + report.invalid.length + report.orphanMessages.length + unknownVersionSessions;
+}
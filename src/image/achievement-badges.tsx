@@ -0,0 +1,51 @@
+import type { Achievement } from "../types";
+import { colors, typography, spacing, layout } from "./design-tokens";
+
+const MAX_BADGES = 6;
+
+/** Row of earned achievements with the day each was unlocked, the most recent last */
+export function AchievementBadges({ achievements }: { achievements: Achievement[] }) {
+  const shown = achievements.slice(-MAX_BADGES);
+  const hidden = achievements.length - shown.length;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "row", flexWrap: "wrap", gap: spacing[4] }}>
+      {shown.map((achievement) => (
+        <div
+          key={achievement.id}
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: spacing[1],
+            backgroundColor: colors.surface,
+            borderRadius: layout.radius.lg,
+            border: `2px solid ${colors.accent.primary}`,
+            paddingTop: spacing[3],
+            paddingBottom: spacing[3],
+            paddingLeft: spacing[5],
+            paddingRight: spacing[5],
+          }}
+        >
+          <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.bold, color: colors.text.primary }}>
+            {achievement.name}
+          </span>
+          <span style={{ fontSize: typography.size.sm, fontWeight: typography.weight.medium, color: colors.text.muted }}>
+            {achievement.formattedDate}
+          </span>
+        </div>
+      ))}
+      {hidden > 0 && (
+        <span
+          style={{
+            alignSelf: "center",
+            fontSize: typography.size.md,
+            fontWeight: typography.weight.medium,
+            color: colors.text.tertiary,
+          }}
+        >
+          +{hidden} more
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { AgentStats } from "../types";
+import { colors, typography, spacing } from "./design-tokens";
+
+const MAX_AGENTS = 5;
+
+/** One line of agents and their share of assistant messages, e.g. "Build 72% · Plan 21% · review 7%" */
+export function AgentBreakdown({ agents }: { agents: AgentStats[] }) {
+  const shown = agents.slice(0, MAX_AGENTS).map((agent) => ({ name: agent.name, share: agent.messageShare }));
+  const otherShare = agents.slice(MAX_AGENTS).reduce((sum, agent) => sum + agent.messageShare, 0);
+  if (otherShare > 0) {
+    shown.push({ name: "Other", share: otherShare });
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: spacing[4] }}>
+      {shown.map((agent, i) => (
+        <div key={agent.name} style={{ display: "flex", alignItems: "center", gap: spacing[4] }}>
+          {i > 0 && <span style={{ fontSize: typography.size.lg, color: colors.text.muted }}>·</span>}
+          <span
+            style={{
+              fontSize: typography.size.lg,
+              fontWeight: typography.weight.medium,
+              color: colors.text.primary,
+            }}
+          >
+            {agent.name}
+          </span>
+          <span
+            style={{
+              fontSize: typography.size.lg,
+              fontWeight: typography.weight.bold,
+              color: i === 0 ? colors.accent.primary : colors.text.tertiary,
+            }}
+          >
+            {formatShare(agent.share)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatShare(share: number): string {
+  const percent = Math.round(share * 100);
+  return percent === 0 ? "<1%" : `${percent}%`;
+}
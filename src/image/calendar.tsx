@@ -0,0 +1,98 @@
+import type { DateRange } from "../types";
+import { generateWeeks, getIntensityLevel } from "../utils/dates";
+import { colors, typography, spacing, components, HEATMAP_COLORS, STREAK_COLORS } from "./design-tokens";
+import { HeatmapLegend } from "./heatmap";
+
+interface CalendarHeatmapProps {
+  dailyActivity: Map<string, number>;
+  range: DateRange;
+  maxStreakDays?: Set<string>;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const CELL_GAP = 6;
+const CELL_HEIGHT = 32;
+const CELL_RADIUS = components.heatmapCell.borderRadius;
+
+/** Month view: one row per week, one column per weekday, with day numbers */
+export function CalendarHeatmap({ dailyActivity, range, maxStreakDays }: CalendarHeatmapProps) {
+  const weeks = generateWeeks(range, true);
+
+  const counts = Array.from(dailyActivity.values());
+  const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: CELL_GAP,
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "row", gap: CELL_GAP }}>
+        {WEEKDAY_LABELS.map((label) => (
+          <span
+            key={label}
+            style={{
+              flex: 1,
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+            }}
+          >
+            {label}
+          </span>
+        ))}
+      </div>
+
+      {weeks.map((week, weekIndex) => (
+        <div key={weekIndex} style={{ display: "flex", flexDirection: "row", gap: CELL_GAP }}>
+          {week.map((dateStr, dayIndex) => (
+            <CalendarDay
+              key={dayIndex}
+              dateStr={dateStr}
+              count={dateStr ? dailyActivity.get(dateStr) || 0 : 0}
+              maxCount={maxCount}
+              isStreakDay={!!dateStr && !!maxStreakDays?.has(dateStr)}
+            />
+          ))}
+        </div>
+      ))}
+
+      <HeatmapLegend />
+    </div>
+  );
+}
+
+interface CalendarDayProps {
+  dateStr: string;
+  count: number;
+  maxCount: number;
+  isStreakDay: boolean;
+}
+
+function CalendarDay({ dateStr, count, maxCount, isStreakDay }: CalendarDayProps) {
+  const intensity = getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS;
+  const color = (isStreakDay ? STREAK_COLORS : HEATMAP_COLORS)[intensity];
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        height: CELL_HEIGHT,
+        display: "flex",
+        alignItems: "center",
+        paddingLeft: spacing[3],
+        backgroundColor: dateStr ? color : "transparent",
+        borderRadius: CELL_RADIUS,
+        fontSize: typography.size.sm,
+        fontWeight: typography.weight.medium,
+        // Bright cells need dark text to stay readable
+        color: intensity >= 5 ? colors.background : colors.text.tertiary,
+      }}
+    >
+      {dateStr ? String(Number(dateStr.slice(8))) : ""}
+    </div>
+  );
+}
@@ -161,10 +161,9 @@ export const spacing = {
  * Layout constants for the wrapped image
  */
 export const layout = {
-  // Canvas dimensions
+  // Canvas width, the height follows from the sections each card shows
   canvas: {
     width: 1500,
-    height: 1700,
   },
 
   // Container padding
@@ -18,7 +18,6 @@ export async function generateImage(stats: OpenCodeStats): Promise<GeneratedImag
 
   const svg = await satori(<WrappedTemplate stats={stats} />, {
     width: layout.canvas.width,
-    height: layout.canvas.height,
     fonts: await loadFonts(),
   });
 
@@ -1,10 +1,13 @@
-import { generateWeeksForYear, getIntensityLevel } from "../utils/dates";
+import type { DateRange } from "../types";
+import { generateWeeks, getIntensityLevel } from "../utils/dates";
 import { colors, typography, spacing, components, HEATMAP_COLORS, STREAK_COLORS } from "./design-tokens";
 
 interface HeatmapProps {
   dailyActivity: Map<string, number>;
-  year: number;
+  range: DateRange;
   maxStreakDays?: Set<string>;
+  /** Width of a full year's grid in pixels, cells shrink or grow to match (default: full size) */
+  width?: number;
 }
 
 interface MonthLabel {
@@ -18,16 +21,24 @@ const CELL_SIZE = components.heatmapCell.size;
 const CELL_GAP = components.heatmapCell.gap;
 const CELL_RADIUS = components.heatmapCell.borderRadius;
 
+// A full year is 53 week columns; longer ranges shrink cells to keep the same width
+const MAX_FULL_SIZE_WEEKS = 53;
+const GRID_WIDTH = MAX_FULL_SIZE_WEEKS * (CELL_SIZE + CELL_GAP) - CELL_GAP;
+
 const LEGEND_CELL_SIZE = components.legend.cellSize;
 const LEGEND_GAP = components.legend.gap;
 
-export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapProps) {
-  const weeks = generateWeeksForYear(year);
+export function ActivityHeatmap({ dailyActivity, range, maxStreakDays, width }: HeatmapProps) {
+  const weeks = generateWeeks(range);
 
   const counts = Array.from(dailyActivity.values());
   const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
 
-  const monthLabels = getMonthLabels(weeks, CELL_SIZE, CELL_GAP);
+  // Sized for at least a full year, so partial years line up with full ones
+  const columns = Math.max(weeks.length, MAX_FULL_SIZE_WEEKS);
+  const cellSize = ((width ?? GRID_WIDTH) - (columns - 1) * CELL_GAP) / columns;
+
+  const monthLabels = getMonthLabels(weeks, cellSize, CELL_GAP);
 
   return (
     <div
@@ -38,7 +49,13 @@ export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapP
       }}
     >
       <MonthLabelsRow labels={monthLabels} />
-      <HeatmapGrid weeks={weeks} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+      <HeatmapGrid
+        weeks={weeks}
+        dailyActivity={dailyActivity}
+        maxStreakDays={maxStreakDays}
+        maxCount={maxCount}
+        cellSize={cellSize}
+      />
       <HeatmapLegend />
     </div>
   );
@@ -79,9 +96,10 @@ interface HeatmapGridProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapGridProps) {
+function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount, cellSize }: HeatmapGridProps) {
   return (
     <div
       style={{
@@ -91,7 +109,14 @@ function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapG
       }}
     >
       {weeks.map((week, weekIndex) => (
-        <WeekColumn key={weekIndex} week={week} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <WeekColumn
+          key={weekIndex}
+          week={week}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -102,9 +127,10 @@ interface WeekColumnProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumnProps) {
+function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount, cellSize }: WeekColumnProps) {
   return (
     <div
       style={{
@@ -114,7 +140,14 @@ function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumn
       }}
     >
       {week.map((dateStr, dayIndex) => (
-        <DayCell key={dayIndex} dateStr={dateStr} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <DayCell
+          key={dayIndex}
+          dateStr={dateStr}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -125,9 +158,10 @@ interface DayCellProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellProps) {
+function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount, cellSize }: DayCellProps) {
   const count = dateStr ? dailyActivity.get(dateStr) || 0 : 0;
   const intensity = getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS;
   const isStreakDay = dateStr && maxStreakDays?.has(dateStr);
@@ -137,8 +171,8 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   return (
     <div
       style={{
-        width: CELL_SIZE,
-        height: CELL_SIZE,
+        width: cellSize,
+        height: cellSize,
         backgroundColor: dateStr ? color : "transparent",
         borderRadius: CELL_RADIUS,
         display: "flex",
@@ -149,7 +183,7 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   );
 }
 
-function HeatmapLegend() {
+export function HeatmapLegend() {
   return (
     <div
       style={{
@@ -0,0 +1,78 @@
+import { getIntensityLevel } from "../utils/dates";
+import { colors, typography, spacing, components, HEATMAP_COLORS } from "./design-tokens";
+import { HeatmapLegend } from "./heatmap";
+
+interface HourGridProps {
+  /** One row per label, 24 hourly counts per row */
+  matrix: number[][];
+  rowLabels: string[];
+}
+
+const LABEL_WIDTH = 120;
+const CELL_HEIGHT = 28;
+const CELL_GAP = components.heatmapCell.gap;
+const CELL_RADIUS = components.heatmapCell.borderRadius;
+
+const HOUR_LABELS: Record<number, string> = { 0: "12am", 6: "6am", 12: "12pm", 18: "6pm" };
+
+/** Rows of 24 hourly cells, used for the week view */
+export function HourGrid({ matrix, rowLabels }: HourGridProps) {
+  const maxCount = Math.max(0, ...matrix.flat());
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: CELL_GAP,
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "row", gap: CELL_GAP, marginLeft: LABEL_WIDTH }}>
+        {Array.from({ length: 24 }, (_, hour) => (
+          <span
+            key={hour}
+            style={{
+              flex: 1,
+              height: 20,
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+            }}
+          >
+            {HOUR_LABELS[hour] ?? ""}
+          </span>
+        ))}
+      </div>
+
+      {matrix.map((row, rowIndex) => (
+        <div key={rowIndex} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: CELL_GAP }}>
+          <span
+            style={{
+              width: LABEL_WIDTH,
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+            }}
+          >
+            {rowLabels[rowIndex]}
+          </span>
+          {row.map((count, hour) => (
+            <div
+              key={hour}
+              style={{
+                flex: 1,
+                height: CELL_HEIGHT,
+                backgroundColor: HEATMAP_COLORS[getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS],
+                borderRadius: CELL_RADIUS,
+              }}
+            />
+          ))}
+        </div>
+      ))}
+
+      <div style={{ display: "flex", marginTop: spacing[1] }}>
+        <HeatmapLegend />
+      </div>
+    </div>
+  );
+}
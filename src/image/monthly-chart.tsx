@@ -0,0 +1,101 @@
+import type { MonthlyStats } from "../types";
+import { formatNumber } from "../utils/format";
+import { colors, typography, spacing } from "./design-tokens";
+
+const CHART_HEIGHT = 120;
+const MIN_BAR_HEIGHT = 4;
+// Months needed on each side of a change before it is called a trend
+const MIN_TREND_MONTHS = 2;
+const MIN_TREND_RATIO = 2;
+
+/** Tokens per month as bars, with the busiest month highlighted and a one-line trend caption */
+export function MonthlyChart({ monthly }: { monthly: MonthlyStats[] }) {
+  const maxTokens = Math.max(0, ...monthly.map((m) => m.tokens));
+  const peakIndex = monthly.findIndex((m) => m.tokens === maxTokens);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+      <span
+        style={{
+          fontSize: typography.size.lg,
+          fontWeight: typography.weight.medium,
+          color: colors.text.primary,
+          marginBottom: spacing[2],
+        }}
+      >
+        {describeTrend(monthly)}
+      </span>
+
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", gap: spacing[2], height: CHART_HEIGHT }}>
+        {monthly.map((month, i) => (
+          <div
+            key={month.month}
+            style={{
+              flex: 1,
+              height: maxTokens > 0 ? Math.max(MIN_BAR_HEIGHT, Math.round((month.tokens / maxTokens) * CHART_HEIGHT)) : MIN_BAR_HEIGHT,
+              backgroundColor: i === peakIndex && maxTokens > 0 ? colors.accent.primary : colors.heatmap.level2,
+              borderRadius: 4,
+            }}
+          />
+        ))}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "row", gap: spacing[2] }}>
+        {monthly.map((month, i) => {
+          const isPeak = i === peakIndex && maxTokens > 0;
+          return (
+            <div
+              key={month.month}
+              style={{
+                flex: 1,
+                display: "flex",
+                justifyContent: "center",
+                fontSize: typography.size.sm,
+                fontWeight: isPeak ? typography.weight.bold : typography.weight.regular,
+                color: isPeak ? colors.accent.primary : colors.text.muted,
+              }}
+            >
+              {month.label}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Headline for the series, e.g. "Tokens tripled after June". Looks for the month after which
+ * average usage changed the most, ignoring months before the first and after the last activity.
+ */
+function describeTrend(monthly: MonthlyStats[]): string {
+  const activeIndexes = monthly.flatMap((m, i) => (m.tokens > 0 ? [i] : []));
+  const active = activeIndexes.length > 0 ? monthly.slice(activeIndexes[0], activeIndexes.at(-1)! + 1) : [];
+
+  const average = (months: MonthlyStats[]) => months.reduce((sum, m) => sum + m.tokens, 0) / months.length;
+
+  let best: { ratio: number; after: string } | null = null;
+  for (let split = MIN_TREND_MONTHS; split <= active.length - MIN_TREND_MONTHS; split++) {
+    const before = average(active.slice(0, split));
+    const after = average(active.slice(split));
+    if (before === 0 || after === 0) continue;
+
+    // Compare growth and decline on the same scale
+    const ratio = Math.max(after / before, before / after) * Math.sign(after - before);
+    if (!best || Math.abs(ratio) > Math.abs(best.ratio)) {
+      best = { ratio, after: active[split - 1].label };
+    }
+  }
+
+  if (best && Math.abs(best.ratio) >= MIN_TREND_RATIO) {
+    const factor = Math.abs(best.ratio);
+    if (best.ratio < 0) {
+      return `Tokens dropped ${Math.round(factor)}x after ${best.after}`;
+    }
+    const change = factor < 2.5 ? "doubled" : factor < 3.5 ? "tripled" : `grew ${Math.round(factor)}x`;
+    return `Tokens ${change} after ${best.after}`;
+  }
+
+  const peak = active.reduce<MonthlyStats | null>((max, m) => (!max || m.tokens > max.tokens ? m : max), null);
+  return peak ? `Busiest month: ${peak.label} with ${formatNumber(peak.tokens)} tokens` : "No activity yet";
+}
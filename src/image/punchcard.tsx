@@ -0,0 +1,83 @@
+import { formatHour } from "../utils/format";
+import { getIntensityLevel } from "../utils/dates";
+import { colors, typography, HEATMAP_COLORS } from "./design-tokens";
+
+interface PunchcardProps {
+  /** One row per weekday (0=Sunday), 24 hourly counts per row */
+  matrix: number[][];
+  peakHour: number;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const LABEL_WIDTH = 64;
+const ROW_HEIGHT = 22;
+const ROW_GAP = 4;
+const MIN_DOT_SIZE = 4;
+const MAX_DOT_SIZE = 20;
+
+/** Weekday x hour punchcard, dot size and color grow with the message count */
+export function Punchcard({ matrix, peakHour }: PunchcardProps) {
+  const maxCount = Math.max(0, ...matrix.flat());
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: ROW_GAP, flex: 1 }}>
+      <div style={{ display: "flex", flexDirection: "row", marginLeft: LABEL_WIDTH }}>
+        {Array.from({ length: 24 }, (_, hour) => (
+          <span
+            key={hour}
+            style={{
+              flex: 1,
+              height: 20,
+              fontSize: typography.size.sm,
+              fontWeight: hour === peakHour ? typography.weight.bold : typography.weight.medium,
+              color: hour === peakHour ? colors.accent.primary : colors.text.muted,
+            }}
+          >
+            {hour % 6 === 0 || hour === peakHour ? formatHour(hour) : ""}
+          </span>
+        ))}
+      </div>
+
+      {matrix.map((row, day) => (
+        <div key={day} style={{ display: "flex", flexDirection: "row", alignItems: "center", height: ROW_HEIGHT }}>
+          <span
+            style={{
+              width: LABEL_WIDTH,
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+            }}
+          >
+            {WEEKDAY_LABELS[day]}
+          </span>
+          {row.map((count, hour) => (
+            <div key={hour} style={{ flex: 1, display: "flex", justifyContent: "center", alignItems: "center" }}>
+              <PunchcardDot count={count} maxCount={maxCount} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PunchcardDot({ count, maxCount }: { count: number; maxCount: number }) {
+  // Area (not diameter) tracks the count, so busy hours don't look disproportionately large
+  const size =
+    count > 0 && maxCount > 0
+      ? Math.round(MIN_DOT_SIZE + Math.sqrt(count / maxCount) * (MAX_DOT_SIZE - MIN_DOT_SIZE))
+      : MIN_DOT_SIZE;
+  const intensity = getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS;
+
+  return (
+    <div
+      style={{
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: HEATMAP_COLORS[intensity],
+      }}
+    />
+  );
+}
@@ -1,18 +1,39 @@
-import type { OpenCodeStats, WeekdayActivity } from "../types";
-import { formatNumber, formatCost, formatShortDate, formatDate } from "../utils/format";
+import type { Chronotype, OpenCodeStats, Persona, WeekdayActivity } from "../types";
+import { formatNumber, formatCost, formatShortDate, formatDate, formatDelta, formatHours, formatDuration, formatLatency, formatRankChange, truncate, truncatePath } from "../utils/format";
+import { addDays, parseDateKey } from "../utils/dates";
 import { ActivityHeatmap } from "./heatmap";
+import { CalendarHeatmap } from "./calendar";
+import { HourGrid } from "./hour-grid";
+import { Punchcard } from "./punchcard";
+import { TokenBreakdown } from "./token-breakdown";
+import { AgentBreakdown } from "./agent-breakdown";
+import { MonthlyChart } from "./monthly-chart";
+import { YearMonthGrid } from "./year-month-grid";
+import { AchievementBadges } from "./achievement-badges";
 import { getProviderLogoUrl } from "../models";
+import { MIN_LATENCY_SAMPLES } from "../stats";
 import { colors, typography, spacing, layout, components } from "./design-tokens";
 import logo from "../../assets/images/opencode-wordmark-simple-dark.svg" with { type: 'text' }
 
 const OPENCODE_LOGO_DATA_URL = `data:image/svg+xml;base64,${Buffer.from(logo).toString("base64")}`;
 
 export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
+  // Only worth showing when there is more than one model to compare
+  const fastestModels = stats.modelLatency.filter((m) => m.count >= MIN_LATENCY_SAMPLES).slice(0, 3);
+  const showFastestModels = fastestModels.length > 1;
+  // Hidden project names carry no information, so the ranking is left out
+  const showTopProjects = stats.projects.length > 0 && stats.projectNames !== "hidden";
+  const comparison = getComparison(stats);
+  const rankChange = (rank: number, previous: { id: string }[], id: string) => {
+    if (!comparison) return undefined;
+    const previousIndex = previous.findIndex((item) => item.id === id);
+    return formatRankChange(rank, previousIndex >= 0 ? previousIndex + 1 : undefined, comparison.range.label);
+  };
+
   return (
     <div
       style={{
         width: layout.canvas.width,
-        height: layout.canvas.height,
         display: "flex",
         flexDirection: "column",
         backgroundColor: colors.background,
@@ -24,7 +45,7 @@ export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
         paddingBottom: layout.padding.bottom,
       }}
     >
-      <Header year={stats.year} />
+      <Header label={stats.range.label} />
 
       <div style={{ marginTop: spacing[12], display: "flex", flexDirection: "row", gap: spacing[16], alignItems: "flex-start" }}>
         <HeroStatItem
@@ -62,10 +83,33 @@ export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
         </div>
       </div>
 
-      <Section title="Activity" marginTop={spacing[10]}>
-        <ActivityHeatmap dailyActivity={stats.dailyActivity} year={stats.year} maxStreakDays={stats.maxStreakDays} />
+      <PersonaBanner persona={stats.persona} />
+
+      <Section title={stats.heatmapMetric === "cost" ? "Spend" : "Activity"} marginTop={spacing[10]}>
+        <ActivityView stats={stats} />
       </Section>
 
+      {/* The all-time grid already breaks the history down by month */}
+      {stats.monthly.length > 1 && stats.range.kind !== "all" && (
+        <Section title="Monthly" marginTop={spacing[10]}>
+          <MonthlyChart monthly={stats.monthly} />
+        </Section>
+      )}
+
+      {/* The week view's activity grid already breaks days down by hour */}
+      {stats.range.kind !== "week" && (
+        <Section title="Hourly" marginTop={spacing[10]}>
+          <div style={{ display: "flex", flexDirection: "row", gap: spacing[16], alignItems: "center" }}>
+            <Punchcard matrix={stats.weekdayHourActivity} peakHour={stats.hourActivity.peakHour} />
+            <HeroStatItem
+              label="Peak Hour"
+              subtitle={CHRONOTYPE_LABELS[stats.hourActivity.chronotype]}
+              value={stats.hourActivity.peakHourLabel}
+            />
+          </div>
+        </Section>
+      )}
+
       <div
         style={{
           marginTop: spacing[12],
@@ -76,26 +120,142 @@ export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
       >
         <RankingList
           title="Top Models"
-          items={stats.topModels.map((m) => ({
+          items={stats.topModels.map((m, i) => ({
             name: m.name,
+            detail: rankChange(i + 1, comparison?.topModels ?? [], m.id),
+          }))}
+        />
+        <RankingList
+          title="Top Tools"
+          items={stats.topTools.map((t) => ({
+            name: t.name,
           }))}
         />
         <RankingList
           title="Providers"
-          items={stats.topProviders.map((p) => ({
+          items={stats.topProviders.map((p, i) => ({
             name: p.name,
             logoUrl: getProviderLogoUrl(p.id),
+            detail: rankChange(i + 1, comparison?.topProviders ?? [], p.id),
           }))}
         />
       </div>
 
+      {(showTopProjects || showFastestModels) && (
+        <div
+          style={{
+            marginTop: spacing[12],
+            display: "flex",
+            flexDirection: "row",
+            gap: spacing[16],
+          }}
+        >
+          {showTopProjects && (
+            <RankingList
+              title="Top Projects"
+              items={stats.projects.slice(0, 3).map((project) => ({
+                name: truncatePath(project.name, 24),
+                detail: `${formatNumber(project.messages)} messages`,
+              }))}
+            />
+          )}
+          {showFastestModels && (
+            <RankingList
+              title="Fastest Models"
+              items={fastestModels.map((m) => ({
+                name: m.name,
+                detail: `${formatLatency(m.p50Ms)} median response`,
+              }))}
+            />
+          )}
+          {/* Keep the columns aligned with the row above */}
+          {!(showTopProjects && showFastestModels) && <div style={{ display: "flex", flex: 1 }} />}
+          <div style={{ display: "flex", flex: 1 }} />
+        </div>
+      )}
+
+      <Section title="Tokens" marginTop={spacing[12]}>
+        <TokenBreakdown stats={stats} />
+      </Section>
+
+      {stats.agents.length > 0 && (
+        <Section title="Agents" marginTop={spacing[10]}>
+          <AgentBreakdown agents={stats.agents} />
+        </Section>
+      )}
+
+      {stats.achievements.length > 0 && (
+        <Section title="Achievements" marginTop={spacing[10]}>
+          <AchievementBadges achievements={stats.achievements} />
+        </Section>
+      )}
+
       <StatsGrid stats={stats} />
       <Footer />
     </div>
   );
 }
 
-function Header({ year }: { year: number }) {
+/** Stats of the comparison period, skipped when that period has no activity at all */
+function getComparison(stats: OpenCodeStats): OpenCodeStats | undefined {
+  return stats.comparison && stats.comparison.totalMessages > 0 ? stats.comparison : undefined;
+}
+
+/** Values the day heatmaps are colored by, per --heatmap (the week view's hour grid has its own) */
+function getDailyValues(stats: OpenCodeStats): Map<string, number> {
+  return stats.heatmapMetric === "cost" ? stats.dailyCost : stats.dailyActivity;
+}
+
+function ActivityView({ stats }: { stats: OpenCodeStats }) {
+  const { range } = stats;
+  const comparison = getComparison(stats);
+
+  if (range.kind === "year" && comparison?.range.kind === "year") {
+    const width = (layout.content.width - spacing[12]) / 2;
+    return (
+      <div style={{ display: "flex", flexDirection: "row", gap: spacing[12] }}>
+        {[stats, comparison].map((yearStats, i) => (
+          <div key={yearStats.range.label} style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+            <span
+              style={{
+                fontSize: typography.size.md,
+                fontWeight: typography.weight.bold,
+                color: i === 0 ? colors.text.primary : colors.text.tertiary,
+              }}
+            >
+              {yearStats.range.label}
+            </span>
+            <ActivityHeatmap
+              dailyActivity={getDailyValues(yearStats)}
+              range={yearStats.range}
+              maxStreakDays={yearStats.maxStreakDays}
+              width={width}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (range.kind === "all") {
+    return <YearMonthGrid monthly={stats.monthly} yearly={stats.yearly} metric={stats.heatmapMetric} />;
+  }
+
+  if (range.kind === "month") {
+    return <CalendarHeatmap dailyActivity={getDailyValues(stats)} range={range} maxStreakDays={stats.maxStreakDays} />;
+  }
+
+  if (range.kind === "week") {
+    // A week covers each weekday exactly once, so weekday rows are the days of the week
+    const rowLabels = WEEKDAY_LABELS.map((label, i) => `${label} ${parseDateKey(addDays(range.start, i)).getUTCDate()}`);
+    const matrix = stats.heatmapMetric === "cost" ? stats.weekdayHourCost : stats.weekdayHourActivity;
+    return <HourGrid matrix={matrix} rowLabels={rowLabels} />;
+  }
+
+  return <ActivityHeatmap dailyActivity={getDailyValues(stats)} range={range} maxStreakDays={stats.maxStreakDays} />;
+}
+
+function Header({ label }: { label: string }) {
   return (
     <div
       style={{
@@ -127,7 +287,7 @@ function Header({ year }: { year: number }) {
             marginLeft: spacing[4],
           }}
         >
-          {year}
+          {label}
         </span>
       </span>
     </div>
@@ -135,6 +295,11 @@ function Header({ year }: { year: number }) {
 }
 
 const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CHRONOTYPE_LABELS: Record<Chronotype, string> = {
+  "early-bird": "Early Bird",
+  "night-owl": "Night Owl",
+  daytime: "Daytime Coder",
+};
 const BAR_HEIGHT = 100;
 const BAR_WIDTH = 56;
 const BAR_GAP = 12;
@@ -190,6 +355,54 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
   );
 }
 
+function PersonaBanner({ persona }: { persona: Persona }) {
+  return (
+    <div
+      style={{
+        marginTop: spacing[10],
+        display: "flex",
+        flexDirection: "column",
+        gap: spacing[3],
+        backgroundColor: colors.surface,
+        borderRadius: layout.radius.lg,
+        borderLeft: `6px solid ${colors.accent.primary}`,
+        padding: spacing[8],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        You are
+      </span>
+      <span
+        style={{
+          fontSize: typography.size["4xl"],
+          fontWeight: typography.weight.bold,
+          color: colors.accent.primary,
+          lineHeight: typography.lineHeight.none,
+        }}
+      >
+        {persona.name}
+      </span>
+      <span
+        style={{
+          fontSize: typography.size.lg,
+          fontWeight: typography.weight.medium,
+          color: colors.text.tertiary,
+        }}
+      >
+        {persona.description}
+      </span>
+    </div>
+  );
+}
+
 function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: WeekdayActivity }) {
   const { counts, mostActiveDay, maxCount } = weekdayActivity;
 
@@ -282,6 +495,7 @@ function Section({ title, marginTop = 0, children }: { title: string; marginTop?
 interface RankingItem {
   name: string;
   logoUrl?: string;
+  detail?: string;
 }
 
 function RankingList({ title, items }: { title: string; items: RankingItem[] }) {
@@ -313,7 +527,7 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         }}
       >
         {items.map((item, i) => (
-          <RankingItemRow key={i} rank={i + 1} name={item.name} logoUrl={item.logoUrl} />
+          <RankingItemRow key={i} rank={i + 1} name={item.name} logoUrl={item.logoUrl} detail={item.detail} />
         ))}
       </div>
     </div>
@@ -324,9 +538,10 @@ interface RankingItemRowProps {
   rank: number;
   name: string;
   logoUrl?: string;
+  detail?: string;
 }
 
-function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
+function RankingItemRow({ rank, name, logoUrl, detail }: RankingItemRowProps) {
   return (
     <div
       style={{
@@ -359,15 +574,29 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
         />
       )}
 
-      <span
-        style={{
-          fontSize: components.ranking.itemSize,
-          fontWeight: typography.weight.medium,
-          color: colors.text.primary,
-        }}
-      >
-        {name}
-      </span>
+      <div style={{ display: "flex", flexDirection: "column" }}>
+        <span
+          style={{
+            fontSize: components.ranking.itemSize,
+            fontWeight: typography.weight.medium,
+            color: colors.text.primary,
+          }}
+        >
+          {name}
+        </span>
+
+        {detail && (
+          <span
+            style={{
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.regular,
+              color: colors.text.muted,
+            }}
+          >
+            {detail}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -398,10 +627,17 @@ function StatsGrid({ stats }: { stats: OpenCodeStats }) {
     costValue = formatCost(totalCombinedCost);
   }
 
+  const comparison = getComparison(stats);
+  const compare = (value: (s: OpenCodeStats) => number): string | undefined => {
+    if (!comparison) return undefined;
+    const delta = formatDelta(value(stats), value(comparison));
+    return delta && `${delta} vs ${comparison.range.label}`;
+  };
+
   return (
     <div
       style={{
-        marginTop: "auto",
+        marginTop: spacing[12],
         display: "flex",
         flexDirection: "column",
         gap: spacing[5],
@@ -409,15 +645,55 @@ function StatsGrid({ stats }: { stats: OpenCodeStats }) {
     >
       <div style={{ display: "flex", flexDirection: "column", gap: spacing[5] }}>
         <div style={{ display: "flex", gap: spacing[5] }}>
-          <StatBox label="Sessions" value={formatNumber(stats.totalSessions)} />
-          <StatBox label="Messages" value={formatNumber(stats.totalMessages)} />
-          <StatBox label="Total Tokens" value={formatNumber(stats.totalTokens)} />
+          <StatBox
+            label="Sessions"
+            value={formatNumber(stats.totalSessions)}
+            subtitle={compare((s) => s.totalSessions)}
+          />
+          <StatBox
+            label="Messages"
+            value={formatNumber(stats.totalMessages)}
+            subtitle={compare((s) => s.totalMessages)}
+          />
+          <StatBox
+            label="Total Tokens"
+            value={formatNumber(stats.totalTokens)}
+            subtitle={compare((s) => s.totalTokens)}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: spacing[5] }}>
+          <StatBox
+            label="Projects"
+            value={formatNumber(stats.totalProjects)}
+            subtitle={compare((s) => s.totalProjects)}
+          />
+          <StatBox label="Streak" value={`${stats.maxStreak}d`} subtitle={compare((s) => s.maxStreak)} />
+          <StatBox label={costLabel} value={costValue} subtitle={compare((s) => s.zenCost + s.estimatedCost)} />
         </div>
 
         <div style={{ display: "flex", gap: spacing[5] }}>
-          <StatBox label="Projects" value={formatNumber(stats.totalProjects)} />
-          <StatBox label="Streak" value={`${stats.maxStreak}d`} />
-          <StatBox label={costLabel} value={costValue} />
+          <StatBox
+            label="Hours with OpenCode"
+            value={formatHours(stats.sessionTime.totalActiveMs)}
+            subtitle={compare((s) => s.sessionTime.totalActiveMs)}
+          />
+          <StatBox
+            label="Longest Session"
+            value={formatDuration(stats.sessionTime.longestSession?.activeMs ?? 0)}
+            subtitle={
+              compare((s) => s.sessionTime.longestSession?.activeMs ?? 0) ??
+              (stats.sessionTime.longestSession ? truncate(stats.sessionTime.longestSession.title, 40) : undefined)
+            }
+          />
+          <StatBox
+            label="Cache Hit Rate"
+            value={`${Math.round(stats.cache.hitRate * 100)}%`}
+            subtitle={
+              compare((s) => s.cache.hitRate) ??
+              (stats.cache.savings > 0 ? `${formatCost(stats.cache.savings)} saved` : undefined)
+            }
+          />
         </div>
       </div>
     </div>
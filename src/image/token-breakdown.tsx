@@ -0,0 +1,61 @@
+import type { OpenCodeStats } from "../types";
+import { formatNumber } from "../utils/format";
+import { colors, typography, spacing, layout } from "./design-tokens";
+
+const BAR_HEIGHT = 20;
+const SWATCH_SIZE = 14;
+
+/** Stacked bar splitting all tokens into input, output, reasoning and cache */
+export function TokenBreakdown({ stats }: { stats: OpenCodeStats }) {
+  const segments = [
+    { label: "Input", count: stats.totalInputTokens, color: colors.heatmap.level6 },
+    { label: "Output", count: stats.totalOutputTokens, color: colors.heatmap.level4 },
+    { label: "Reasoning", count: stats.totalReasoningTokens, color: colors.accent.primary },
+    { label: "Cache", count: stats.totalCacheTokens, color: colors.heatmap.level2 },
+  ];
+  const visibleSegments = segments.filter((segment) => segment.count > 0);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[3] }}>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          height: BAR_HEIGHT,
+          gap: spacing[1],
+          borderRadius: layout.radius.sm,
+          overflow: "hidden",
+          backgroundColor: colors.heatmap.empty,
+        }}
+      >
+        {visibleSegments.map((segment) => (
+          <div key={segment.label} style={{ flexGrow: segment.count, backgroundColor: segment.color }} />
+        ))}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "row", gap: spacing[8] }}>
+        {segments.map((segment) => (
+          <div key={segment.label} style={{ display: "flex", alignItems: "center", gap: spacing[2] }}>
+            <div
+              style={{
+                width: SWATCH_SIZE,
+                height: SWATCH_SIZE,
+                borderRadius: layout.radius.sm,
+                backgroundColor: segment.color,
+              }}
+            />
+            <span
+              style={{
+                fontSize: typography.size.md,
+                fontWeight: typography.weight.medium,
+                color: colors.text.tertiary,
+              }}
+            >
+              {segment.label} {formatNumber(segment.count)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import type { HeatmapMetric, MonthlyStats, YearlyStats } from "../types";
+import { getIntensityLevel } from "../utils/dates";
+import { formatCost, formatNumber } from "../utils/format";
+import { colors, typography, spacing, components, HEATMAP_COLORS } from "./design-tokens";
+import { HeatmapLegend } from "./heatmap";
+
+interface YearMonthGridProps {
+  monthly: MonthlyStats[];
+  yearly: YearlyStats[];
+  metric: HeatmapMetric;
+}
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const SUMMARY_COLUMNS: [label: string, format: (year: YearlyStats) => string][] = [
+  ["Sessions", (year) => formatNumber(year.sessions)],
+  ["Messages", (year) => formatNumber(year.messages)],
+  ["Tokens", (year) => formatNumber(year.tokens)],
+  ["Cost", (year) => formatCost(year.cost)],
+];
+
+const LABEL_WIDTH = 80;
+const CELL_HEIGHT = 32;
+const CELL_GAP = components.heatmapCell.gap * 2;
+const CELL_RADIUS = components.heatmapCell.borderRadius;
+const SUMMARY_COLUMN_WIDTH = 130;
+
+/** All-time view: one row of monthly cells per year, followed by that year's totals */
+export function YearMonthGrid({ monthly, yearly, metric }: YearMonthGridProps) {
+  const valuesByMonth = new Map(monthly.map((month) => [month.month, month[metric]]));
+  const maxCount = Math.max(0, ...valuesByMonth.values());
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: CELL_GAP }}>
+      <div style={{ display: "flex", flexDirection: "row", gap: CELL_GAP, marginLeft: LABEL_WIDTH }}>
+        {MONTH_LABELS.map((label) => (
+          <HeaderLabel key={label} text={label} style={{ flex: 1 }} />
+        ))}
+        {SUMMARY_COLUMNS.map(([label]) => (
+          <HeaderLabel key={label} text={label} style={{ width: SUMMARY_COLUMN_WIDTH, justifyContent: "flex-end" }} />
+        ))}
+      </div>
+
+      {yearly.map((year) => (
+        <div key={year.year} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: CELL_GAP }}>
+          <span
+            style={{
+              width: LABEL_WIDTH,
+              fontSize: typography.size.md,
+              fontWeight: typography.weight.bold,
+              color: colors.text.secondary,
+            }}
+          >
+            {year.year}
+          </span>
+
+          {MONTH_LABELS.map((_, month) => {
+            // Months outside the history (before the first session, after today) are left blank
+            const count = valuesByMonth.get(`${year.year}-${String(month + 1).padStart(2, "0")}`);
+            const intensity = getIntensityLevel(count ?? 0, maxCount) as keyof typeof HEATMAP_COLORS;
+            return (
+              <div
+                key={month}
+                style={{
+                  flex: 1,
+                  height: CELL_HEIGHT,
+                  backgroundColor: count !== undefined ? HEATMAP_COLORS[intensity] : "transparent",
+                  borderRadius: CELL_RADIUS,
+                }}
+              />
+            );
+          })}
+
+          {SUMMARY_COLUMNS.map(([label, format]) => (
+            <span
+              key={label}
+              style={{
+                width: SUMMARY_COLUMN_WIDTH,
+                display: "flex",
+                justifyContent: "flex-end",
+                fontSize: typography.size.md,
+                fontWeight: typography.weight.medium,
+                color: colors.text.primary,
+              }}
+            >
+              {format(year)}
+            </span>
+          ))}
+        </div>
+      ))}
+
+      <HeatmapLegend />
+    </div>
+  );
+}
+
+function HeaderLabel({ text, style }: { text: string; style: React.CSSProperties }) {
+  return (
+    <span
+      style={{
+        display: "flex",
+        fontSize: typography.size.sm,
+        fontWeight: typography.weight.medium,
+        color: colors.text.muted,
+        ...style,
+      }}
+    >
+      {text}
+    </span>
+  );
+}
@@ -1,20 +1,36 @@
 #!/usr/bin/env bun
 
 import * as p from "@clack/prompts";
-import { join } from "node:path";
+import { delimiter, join } from "node:path";
 import { parseArgs } from "node:util";
 
-import { xdgData } from "xdg-basedir";
-
-import { checkOpenCodeDataExists } from "./collector";
-import { calculateStats } from "./stats";
+import {
+  checkOpenCodeDataExists,
+  getDataPaths,
+  getMissingDataPaths,
+  resolveDataPaths,
+  setDataPaths,
+  setRebuildCache,
+} from "./collector";
+import { calculateStats, MIN_LATENCY_SAMPLES } from "./stats";
 import { generateImage } from "./image/generator";
 import { displayInTerminal, getTerminalName } from "./terminal/display";
 import { copyImageToClipboard } from "./clipboard";
-import { isWrappedAvailable } from "./utils/dates";
-import { formatNumber } from "./utils/format";
+import { isWrappedAvailable, resolveComparisonRange, resolveDateRange, setTimeZone } from "./utils/dates";
+import { formatDelta, formatDuration, formatModelsSource, formatRankChange, formatLatency, formatNumber } from "./utils/format";
+import { MODEL_OVERRIDES_PATH, setOffline } from "./models";
 import { detectInstalledAgents, displayAgentSuggestions } from "./agents";
-import type { OpenCodeStats } from "./types";
+import { runDoctor } from "./doctor";
+import { runPricing } from "./pricing";
+import type {
+  DateRange,
+  FinishReasonStats,
+  HeatmapMetric,
+  LatencyStats,
+  OpenCodeStats,
+  ProjectNameMode,
+  SpendStats,
+} from "./types";
 
 const VERSION = "1.0.0";
 
@@ -25,32 +41,95 @@ oc-wrapped v${VERSION}
 Generate your OpenCode year in review stats card.
 
 USAGE:
-  oc-wrapped [OPTIONS]
+  oc-wrapped [COMMAND] [OPTIONS]
+
+COMMANDS:
+  doctor              Validate OpenCode storage and report records that are skipped
+  pricing             Show which prices the messages in the range were costed with
 
 OPTIONS:
-  --year <YYYY>    Generate wrapped for a specific year (default: current year)
-  --help, -h       Show this help message
-  --version, -v    Show version number
+  --year <YYYY>       Generate wrapped for a specific year (default: current year)
+  --since <DATE>      Start of a custom range, YYYY-MM-DD (default: Jan 1 of the --until year)
+  --until <DATE>      End of a custom range, YYYY-MM-DD (default: today)
+  --last <WINDOW>     Rolling window ending today, e.g. 30d, 12w, 6m, 1y
+  --period <PERIOD>   Generate wrapped for a month or week, compared with the one before
+  --date <DATE>       Day (or YYYY-MM month) inside the --period to show (default: today)
+  --compare <YYYY>    Compare a yearly wrapped with another year
+  --all-time          Generate wrapped for your whole OpenCode history
+  --tz <ZONE>         IANA time zone to count days and hours in, e.g. Europe/Berlin (default: system)
+  --idle-gap <MIN>    Minutes between messages after which a session counts as idle (default: 30)
+  --projects <MODE>   Show project names as full paths, names only, or hidden: full|name|hidden (default: full)
+  --heatmap <METRIC>  Color the activity heatmap by messages or cost: messages|cost (default: messages)
+  --budget <USD>      Monthly spend budget, warns when this month's forecast exceeds it
+  --data-dir <PATH>   OpenCode data directory to read (repeatable, merges history)
+  --rebuild-cache     Ignore the file index cache and re-read all storage files
+  --offline           Never fetch model names and prices, use the cached or bundled copy
+  --verbose           Show collection timing and cache details
+  --json              Print the stats (or the pricing report) as JSON instead of generating an image
+  --help, -h          Show this help message
+  --version, -v       Show version number
+
+FILES:
+  ${MODEL_OVERRIDES_PATH}
+                      Your own model prices, names and provider logos, merged over models.dev
+
+ENVIRONMENT:
+  OC_WRAPPED_DATA_DIRS  Data directories separated by "${delimiter}" (used when no --data-dir is given)
 
 EXAMPLES:
   oc-wrapped              # Generate current year wrapped
   oc-wrapped --year 2025  # Generate 2025 wrapped
+  oc-wrapped --since 2025-07-01 --until 2025-09-30  # Generate a Q3 wrapped
+  oc-wrapped --last 14d   # Generate a wrapped for the last two weeks
+  oc-wrapped --period week                    # Generate this week's wrapped
+  oc-wrapped --period month --date 2025-06    # Generate a June 2025 wrapped
+  oc-wrapped --year 2025 --compare 2024       # Show 2025 next to 2024
+  oc-wrapped --all-time                       # Generate a wrapped of your whole history
+  oc-wrapped --tz America/New_York            # Count days in New York time
+  oc-wrapped --heatmap cost --budget 50       # Show daily spend and check it against $50/month
+  oc-wrapped doctor       # Check your OpenCode data for problems
+  oc-wrapped pricing --last 30d               # See how the last month's messages were priced
+  oc-wrapped --data-dir ~/.local/share/opencode --data-dir ~/devbox/opencode
 `);
 }
 
 async function main() {
   // Parse command line arguments
-  const { values } = parseArgs({
+  const { values, positionals } = parseArgs({
     args: process.argv.slice(2),
     options: {
       year: { type: "string", short: "y" },
+      since: { type: "string" },
+      until: { type: "string" },
+      last: { type: "string" },
+      period: { type: "string" },
+      date: { type: "string" },
+      compare: { type: "string" },
+      "all-time": { type: "boolean" },
+      tz: { type: "string" },
+      "idle-gap": { type: "string" },
+      projects: { type: "string" },
+      heatmap: { type: "string" },
+      budget: { type: "string" },
+      json: { type: "boolean" },
+      "data-dir": { type: "string", multiple: true },
+      "rebuild-cache": { type: "boolean" },
+      offline: { type: "boolean" },
+      verbose: { type: "boolean" },
       help: { type: "boolean", short: "h" },
       version: { type: "boolean", short: "v" },
     },
     strict: true,
-    allowPositionals: false,
+    allowPositionals: true,
   });
 
+  const [command, ...extraPositionals] = positionals;
+  if ((command !== undefined && command !== "doctor" && command !== "pricing") || extraPositionals.length > 0) {
+    console.error(`Unknown command: ${positionals.join(" ")}`);
+    printHelp();
+    process.exit(1);
+  }
+
   if (values.help) {
     printHelp();
     process.exit(0);
@@ -61,24 +140,112 @@ async function main() {
     process.exit(0);
   }
 
-  p.intro("opencode wrapped");
+  if (command === "doctor") {
+    process.exit(await runDoctor(resolveDataPaths(values["data-dir"])));
+  }
 
-  const requestedYear = values.year ? parseInt(values.year, 10) : new Date().getFullYear();
+  // With --json, stdout carries only the JSON document, so messages go to stderr
+  const jsonOutput = values.json ?? false;
+  const cancel = (message?: string) => {
+    if (!jsonOutput) p.cancel(message);
+    else if (message) console.error(message);
+  };
+  const warn = (message: string) => {
+    if (!jsonOutput) p.log.warn(message);
+    else console.error(message);
+  };
+
+  if (!jsonOutput) {
+    p.intro(command === "pricing" ? "opencode wrapped pricing" : "opencode wrapped");
+  }
 
-  const availability = isWrappedAvailable(requestedYear);
+  let range;
+  let compareTo;
+  try {
+    setTimeZone(values.tz);
+    range = resolveDateRange(values);
+    compareTo = resolveComparisonRange(range, values.compare);
+  } catch (error) {
+    cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const idleGapMinutes = values["idle-gap"] !== undefined ? Number(values["idle-gap"]) : undefined;
+  if (idleGapMinutes !== undefined && !(idleGapMinutes > 0)) {
+    cancel(`Invalid --idle-gap "${values["idle-gap"]}", expected a number of minutes`);
+    process.exit(1);
+  }
+
+  const projectNames = values.projects ?? "full";
+  if (!isProjectNameMode(projectNames)) {
+    cancel(`Invalid --projects "${projectNames}", expected full, name or hidden`);
+    process.exit(1);
+  }
+
+  const heatmapMetric = values.heatmap ?? "messages";
+  if (!isHeatmapMetric(heatmapMetric)) {
+    cancel(`Invalid --heatmap "${heatmapMetric}", expected messages or cost`);
+    process.exit(1);
+  }
+
+  const monthlyBudget = values.budget !== undefined ? Number(values.budget) : undefined;
+  if (monthlyBudget !== undefined && !(monthlyBudget > 0)) {
+    cancel(`Invalid --budget "${values.budget}", expected an amount in USD per month`);
+    process.exit(1);
+  }
+
+  setDataPaths(resolveDataPaths(values["data-dir"]));
+  setRebuildCache(values["rebuild-cache"] ?? false);
+  setOffline(values.offline ?? false);
+
+  const dataExists = await checkOpenCodeDataExists();
+  if (!dataExists) {
+    cancel(`OpenCode data not found in ${getDataPaths().join(", ")}\n\nMake sure you have used OpenCode at least once.`);
+    process.exit(0);
+  }
+
+  for (const missingPath of await getMissingDataPaths()) {
+    warn(`No OpenCode data found in ${missingPath}, skipping`);
+  }
+
+  if (command === "pricing") {
+    process.exit(await runPricing(range, { json: jsonOutput }));
+  }
+
+  const availability = isWrappedAvailable(range);
   if (!availability.available) {
     if (Array.isArray(availability.message)) {
-      availability.message.forEach((line) => p.log.warn(line));
+      availability.message.forEach(warn);
     } else {
-      p.log.warn(availability.message || "Wrapped not available yet.");
+      warn(availability.message || "Wrapped not available yet.");
     }
-    p.cancel();
+    cancel();
     process.exit(0);
   }
 
-  const dataExists = await checkOpenCodeDataExists();
-  if (!dataExists) {
-    p.cancel(`OpenCode data not found in ${xdgData}/opencode\n\nMake sure you have used OpenCode at least once.`);
+  const statsOptions = { compareTo, idleGapMinutes, projectNames, heatmapMetric, monthlyBudget };
+
+  // An explicit --compare year without activity is worth pointing out, an empty previous month isn't
+  const warnEmptyComparison = (stats: OpenCodeStats) => {
+    if (values.compare !== undefined && stats.comparison && stats.comparison.totalMessages === 0) {
+      warn(`No OpenCode activity found for ${stats.comparison.range.label}, nothing to compare against`);
+    }
+  };
+
+  const warnBudget = ({ spend }: OpenCodeStats) => {
+    if (monthlyBudget === undefined) return;
+    if (!spend || spend.monthForecast === null) {
+      warn(`${range.label} doesn't cover this month so far, --budget can't be checked`);
+    } else if (spend.overBudget) {
+      warn(`On track to spend ~$${spend.monthForecast.toFixed(2)} this month, over your $${monthlyBudget.toFixed(2)} budget`);
+    }
+  };
+
+  if (jsonOutput) {
+    const stats = await calculateStats(range, statsOptions);
+    warnEmptyComparison(stats);
+    warnBudget(stats);
+    console.log(JSON.stringify(stats, jsonReplacer, 2));
     process.exit(0);
   }
 
@@ -87,7 +254,7 @@ async function main() {
 
   let stats;
   try {
-    stats = await calculateStats(requestedYear);
+    stats = await calculateStats(range, statsOptions);
   } catch (error) {
     spinner.stop("Failed to collect stats");
     p.cancel(`Error: ${error}`);
@@ -96,25 +263,129 @@ async function main() {
 
   if (stats.totalSessions === 0) {
     spinner.stop("No data found");
-    p.cancel(`No OpenCode activity found for ${requestedYear}`);
+    p.cancel(`No OpenCode activity found for ${range.label}`);
     process.exit(0);
   }
 
   spinner.stop("Found your stats!");
 
+  if (values.verbose) {
+    const { durationMs, filesParsed, filesCached } = stats.collection;
+    p.log.info(
+      `Collected in ${Math.round(durationMs)}ms (${formatNumber(filesParsed)} files parsed, ${formatNumber(filesCached)} from cache)`
+    );
+  }
+
   // Display summary
   const summaryLines = [
     `Sessions:      ${formatNumber(stats.totalSessions)}`,
     `Messages:      ${formatNumber(stats.totalMessages)}`,
-    `Total Tokens:  ${formatNumber(stats.totalTokens)}`,
+    `Total Tokens:  ${formatNumber(stats.totalTokens)}` +
+      (stats.totalReasoningTokens > 0 ? ` (${formatNumber(stats.totalReasoningTokens)} reasoning)` : ""),
     `Projects:      ${formatNumber(stats.totalProjects)}`,
+    stats.projects.length > 0 &&
+      stats.projectNames !== "hidden" &&
+      `Top Project:   ${stats.projects[0].name} (${formatNumber(stats.projects[0].messages)} messages)`,
+    `Active Time:   ${formatDuration(stats.sessionTime.totalActiveMs)} (median session ${formatDuration(stats.sessionTime.medianSessionMs)})`,
+    stats.sessionTime.longestSession &&
+      `Longest:       ${formatDuration(stats.sessionTime.longestSession.activeMs)} in "${stats.sessionTime.longestSession.title}"`,
+    stats.agents.length > 0 &&
+      `Agents:        ${stats.agents.map((a) => `${a.name} ${Math.round(a.messageShare * 100)}%`).join(" · ")}`,
+    stats.totalToolCalls > 0 &&
+      `Tool Calls:    ${formatNumber(stats.totalToolCalls)} (${(stats.toolErrorRate * 100).toFixed(1)}% failed)`,
+    stats.finish.aborted + stats.finish.errors > 0 &&
+      `Interrupted:   ${formatNumber(stats.finish.aborted)} aborted, ${formatNumber(stats.finish.errors)} failed turns`,
+    stats.finish.truncated > 0 &&
+      `Truncated:     ${formatNumber(stats.finish.truncated)} turns (${(stats.finish.truncationRate * 100).toFixed(1)}% hit the output limit)`,
+    stats.cache.readTokens > 0 &&
+      `Cache Hits:    ${(stats.cache.hitRate * 100).toFixed(1)}% of input tokens` +
+        (stats.cache.savings > 0 ? ` (~$${stats.cache.savings.toFixed(2)} saved)` : ""),
     `Streak:        ${stats.maxStreak} days`,
     stats.zenCost > 0 && `Zen Cost:      $${stats.zenCost.toFixed(2)}`,
     stats.estimatedCost > 0 && `Est. Cost:     ~$${stats.estimatedCost.toFixed(2)}`,
+    ...formatSpendLines(stats.spend),
+    `Pricing:       ${formatModelsSource(stats.modelsSource)}`,
     stats.mostActiveDay && `Most Active:   ${stats.mostActiveDay.formattedDate}`,
+    stats.totalMessages > 0 && `Peak Hour:     ${stats.hourActivity.peakHourLabel}`,
   ];
 
-  p.note(summaryLines.join("\n"), `Your ${requestedYear} in OpenCode`);
+  p.note(summaryLines.filter(Boolean).join("\n"), `Your ${stats.range.label} in OpenCode`);
+  warnBudget(stats);
+  p.note(stats.persona.description, `You are: ${stats.persona.name}`);
+
+  if (stats.achievements.length > 0) {
+    const achievementLines = stats.achievements.map(
+      (achievement) => `${achievement.name.padEnd(20)} ${achievement.description} (earned ${achievement.formattedDate})`
+    );
+    p.note(achievementLines.join("\n"), "Achievements");
+  }
+
+  warnEmptyComparison(stats);
+  if (stats.comparison && stats.comparison.totalMessages > 0) {
+    p.note(formatComparison(stats, stats.comparison).join("\n"), `Compared with ${stats.comparison.range.label}`);
+  }
+
+  // Months of a multi-year history are too many to list, whole years tell the story instead
+  if (stats.range.kind === "all" && stats.yearly.length > 1) {
+    const yearlyLines = stats.yearly.map(
+      (year) =>
+        `${year.year}  ${formatNumber(year.sessions).padStart(5)} sessions  ${formatNumber(year.messages).padStart(6)} messages  ${formatNumber(year.tokens).padStart(7)} tokens` +
+        (year.cost > 0 ? `  $${year.cost.toFixed(2)}` : "")
+    );
+    p.note(yearlyLines.join("\n"), "Year by year");
+  } else if (stats.monthly.length > 1) {
+    const monthlyLines = stats.monthly.map((month, i) => {
+      const previous = stats.monthly[i - 1];
+      const delta = previous && formatDelta(month.tokens, previous.tokens);
+      return (
+        `${month.label} ${month.month.slice(0, 4)}  ${formatNumber(month.sessions).padStart(5)} sessions  ${formatNumber(month.messages).padStart(6)} messages  ${formatNumber(month.tokens).padStart(7)} tokens` +
+        (month.cost > 0 ? `  $${month.cost.toFixed(2)}` : "") +
+        (delta ? `  (${delta} tokens)` : "")
+      );
+    });
+    p.note(monthlyLines.join("\n"), "Month by month");
+  }
+
+  if (stats.cache.byModel.length > 0) {
+    const cacheLines = stats.cache.byModel.map(
+      (model) =>
+        `${model.name.padEnd(20)} ${(model.hitRate * 100).toFixed(1)}% hit rate, ${formatNumber(model.cacheReadTokens)} cached tokens read`
+    );
+    p.note(cacheLines.join("\n"), "Prompt cache");
+  }
+
+  // Worth a breakdown once more than one agent is in use, e.g. to see whether custom agents are picked up
+  if (stats.agents.length > 1) {
+    const agentLines = stats.agents.map(
+      (agent) =>
+        `${(agent.builtIn ? agent.name : `${agent.name} (custom)`).padEnd(20)} ${formatNumber(agent.messages)} messages, ${(agent.tokenShare * 100).toFixed(1)}% of tokens, ${(agent.costShare * 100).toFixed(1)}% of cost`
+    );
+    p.note(agentLines.join("\n"), "Agents");
+  }
+
+  // Providers first, then models, each fastest first
+  const latencyGroups = [stats.providerLatency, stats.modelLatency]
+    .map((group) => group.filter((l) => l.count >= MIN_LATENCY_SAMPLES).map(formatLatencyLine))
+    .filter((lines) => lines.length > 0);
+  if (latencyGroups.length > 0) {
+    p.note(latencyGroups.map((lines) => lines.join("\n")).join("\n\n"), "Response times");
+  }
+
+  // Providers first, then models, most used first
+  const finishGroups = [stats.finish.byProvider, stats.finish.byModel]
+    .map((group) => group.map(formatFinishLine))
+    .filter((lines) => lines.length > 0);
+  if (finishGroups.length > 0) {
+    p.note(finishGroups.map((lines) => lines.join("\n")).join("\n\n"), "How turns ended");
+  }
+
+  if (stats.sources.length > 1) {
+    const sourceLines = stats.sources.map(
+      (source) =>
+        `${source.dataPath} (${source.storage}): ${formatNumber(source.sessions)} sessions, ${formatNumber(source.messages)} messages`
+    );
+    p.note(sourceLines.join("\n"), "Data sources");
+  }
 
   // Generate image
   spinner.start("Generating your wrapped image...");
@@ -135,7 +406,7 @@ async function main() {
     p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
   }
 
-  const filename = `oc-wrapped-${requestedYear}.png`;
+  const filename = getImageFilename(range);
   const { success, error } = await copyImageToClipboard(image.fullSize, filename);
 
   if (success) {
@@ -189,9 +460,92 @@ async function main() {
   process.exit(0);
 }
 
+function getImageFilename(range: DateRange): string {
+  switch (range.kind) {
+    case "year":
+      return `oc-wrapped-${range.year}.png`;
+    case "month":
+      return `oc-wrapped-${range.start.slice(0, 7)}.png`;
+    case "week":
+      return `oc-wrapped-week-${range.start}.png`;
+    case "all":
+      return "oc-wrapped-all-time.png";
+    default:
+      return `oc-wrapped-${range.start}-to-${range.end}.png`;
+  }
+}
+
+function isProjectNameMode(value: string): value is ProjectNameMode {
+  return value === "full" || value === "name" || value === "hidden";
+}
+
+function isHeatmapMetric(value: string): value is HeatmapMetric {
+  return value === "messages" || value === "cost";
+}
+
+/** Serialize the Maps and Sets in `OpenCodeStats` as plain objects and arrays */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Map) return Object.fromEntries(value);
+  if (value instanceof Set) return Array.from(value);
+  return value;
+}
+
+/** Month and year spend so far with their forecasts, for the periods the range covers up to today */
+function formatSpendLines(spend: SpendStats | null): string[] {
+  if (!spend) return [];
+  const lines: string[] = [];
+  if (spend.monthToDate !== null && spend.monthForecast !== null && (spend.monthForecast > 0 || spend.budget !== null)) {
+    lines.push(
+      `This Month:    $${spend.monthToDate.toFixed(2)} so far, ~$${spend.monthForecast.toFixed(2)} forecast` +
+        (spend.budget !== null ? ` of $${spend.budget.toFixed(2)} budget` : "")
+    );
+  }
+  if (spend.yearToDate !== null && spend.yearForecast !== null && spend.yearForecast > 0) {
+    lines.push(`This Year:     $${spend.yearToDate.toFixed(2)} so far, ~$${spend.yearForecast.toFixed(2)} forecast`);
+  }
+  return lines;
+}
+
+function formatLatencyLine(latency: LatencyStats): string {
+  const throughput = latency.tokensPerSecond !== null ? `, ${Math.round(latency.tokensPerSecond)} tok/s` : "";
+  return `${latency.name.padEnd(20)} p50 ${formatLatency(latency.p50Ms)}, p95 ${formatLatency(latency.p95Ms)}, max ${formatLatency(latency.maxMs)}${throughput}`;
+}
+
+function formatComparison(stats: OpenCodeStats, comparison: OpenCodeStats): string[] {
+  const row = (label: string, value: (s: OpenCodeStats) => number, format: (n: number) => string = formatNumber) => {
+    const delta = formatDelta(value(stats), value(comparison));
+    return `${label.padEnd(15)}${format(value(stats))} vs ${format(value(comparison))}` + (delta ? ` (${delta})` : "");
+  };
+  const rankLines = (title: string, current: { id: string; name: string }[], previous: { id: string }[]) =>
+    current.map((item, i) => {
+      const previousIndex = previous.findIndex((p) => p.id === item.id);
+      const change = formatRankChange(i + 1, previousIndex >= 0 ? previousIndex + 1 : undefined, comparison.range.label);
+      return `${(i === 0 ? title : "").padEnd(15)}#${i + 1} ${item.name} (${change})`;
+    });
+
+  return [
+    row("Sessions:", (s) => s.totalSessions),
+    row("Messages:", (s) => s.totalMessages),
+    row("Total Tokens:", (s) => s.totalTokens),
+    row("Projects:", (s) => s.totalProjects),
+    row("Active Time:", (s) => s.sessionTime.totalActiveMs, formatDuration),
+    row("Streak:", (s) => s.maxStreak, (n) => `${n} days`),
+    row("Cost:", (s) => s.zenCost + s.estimatedCost, (n) => `$${n.toFixed(2)}`),
+    ...rankLines("Models:", stats.topModels, comparison.topModels),
+    ...rankLines("Providers:", stats.topProviders, comparison.topProviders),
+  ];
+}
+
+function formatFinishLine(stats: FinishReasonStats): string {
+  const reasons = Object.entries(stats.reasons)
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${reason} ${((count / stats.total) * 100).toFixed(0)}%`);
+  return `${stats.name.padEnd(20)} ${formatNumber(stats.total)} turns: ${reasons.join(", ")}`;
+}
+
 function generateTweetUrl(stats: OpenCodeStats): string {
   const text = [
-    `my ${stats.year} opencode wrapped:`,
+    `my ${stats.range.label} opencode wrapped:`,
     ``,
     `${formatNumber(stats.totalSessions)} sessions`,
     `${formatNumber(stats.totalMessages)} messages`,
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { getModelFamily, resolveModelPricing, setModelsData } from "./models";
+
+describe("getModelFamily", () => {
+  test("keeps plain model IDs", () => {
+    expect(getModelFamily("claude-sonnet-4")).toBe("claude-sonnet-4");
+    expect(getModelFamily("gpt-4.1")).toBe("gpt-4.1");
+    expect(getModelFamily("deepseek-v3")).toBe("deepseek-v3");
+    expect(getModelFamily("qwen2.5-coder")).toBe("qwen2.5-coder");
+  });
+
+  test("drops router prefixes and variants", () => {
+    expect(getModelFamily("anthropic/claude-sonnet-4")).toBe("claude-sonnet-4");
+    expect(getModelFamily("qwen/qwen3-coder:free")).toBe("qwen3-coder");
+  });
+
+  test("drops release dates", () => {
+    expect(getModelFamily("claude-sonnet-4-20250514")).toBe("claude-sonnet-4");
+    expect(getModelFamily("claude-sonnet-4@20250514")).toBe("claude-sonnet-4");
+    expect(getModelFamily("gpt-4o-2024-08-06")).toBe("gpt-4o");
+  });
+
+  test("drops the Bedrock vendor and version", () => {
+    expect(getModelFamily("anthropic.claude-sonnet-4-20250514-v1:0")).toBe("claude-sonnet-4");
+    expect(getModelFamily("meta.llama3-70b-instruct-v1:0")).toBe("llama3-70b-instruct");
+    expect(getModelFamily("ai21.jamba-1-5-large-v1:0")).toBe("jamba-1-5-large");
+  });
+
+  test("drops every Bedrock cross-region inference profile", () => {
+    for (const profile of ["us", "us-gov", "eu", "apac", "jp", "au", "ca", "global"]) {
+      expect(getModelFamily(`${profile}.anthropic.claude-sonnet-4-5-20250929-v1:0`)).toBe("claude-sonnet-4-5");
+    }
+    expect(getModelFamily("apac.anthropic.claude-sonnet-4-20250514-v1:0")).toBe("claude-sonnet-4");
+  });
+});
+
+describe("resolveModelPricing", () => {
+  const cost = (input: number, output: number) => ({ input, output });
+
+  setModelsData({
+    openai: {
+      name: "OpenAI",
+      models: {
+        "gpt-4.1-2025-04-14": { name: "GPT-4.1", cost: cost(2, 8) },
+        "gpt-4o": { name: "GPT-4o", cost: cost(2.5, 10) },
+        "gpt-4o-2024-08-06": { name: "GPT-4o", cost: cost(3, 12) },
+      },
+    },
+    "amazon-bedrock": {
+      name: "Amazon Bedrock",
+      models: {
+        "anthropic.claude-sonnet-4-20250514-v1:0": { name: "Claude Sonnet 4", cost: cost(3, 15) },
+      },
+    },
+    anthropic: {
+      name: "Anthropic",
+      models: {
+        "claude-sonnet-4-20250514": { name: "Claude Sonnet 4", cost: cost(3.3, 16.5) },
+      },
+    },
+  });
+
+  test("prices the exact ID from its provider", () => {
+    expect(resolveModelPricing("openai", "gpt-4o-2024-08-06")).toEqual({ cost: cost(3, 12), source: "provider" });
+  });
+
+  test("prices another alias of the family from the same provider", () => {
+    expect(resolveModelPricing("openai", "gpt-4.1")).toEqual({ cost: cost(2, 8), source: "provider" });
+    expect(resolveModelPricing("openai", "gpt-4o-2024-11-20")).toEqual({ cost: cost(2.5, 10), source: "provider" });
+    expect(resolveModelPricing("amazon-bedrock", "us.anthropic.claude-sonnet-4-20250514-v1:0")).toEqual({
+      cost: cost(3, 15),
+      source: "provider",
+    });
+  });
+
+  test("leaves a listed provider's unknown family unpriced", () => {
+    expect(resolveModelPricing("openai", "claude-sonnet-4")).toBeUndefined();
+  });
+
+  test("prices unlisted providers from the family", () => {
+    expect(resolveModelPricing("my-gateway", "claude-sonnet-4")?.source).toBe("family");
+  });
+});
@@ -1,6 +1,13 @@
+import { mkdir, rename } from "node:fs/promises";
+import { join } from "node:path";
+import { xdgConfig } from "xdg-basedir";
+import { CACHE_DIR } from "./storage/cache";
+import type { ModelsSource } from "./types";
+
 export interface ModelCost {
   input: number;
   output: number;
+  reasoning?: number;
   cacheRead?: number;
   cacheWrite?: number;
 }
@@ -18,18 +25,34 @@ interface ProviderInfo {
 }
 
 interface ModelsDevData {
+  // Keyed by modelKey(provider, model ID), as the same model ID is listed by many providers
   models: Record<string, ModelInfo>;
   providers: Record<string, ProviderInfo>;
+  // Keyed by getModelFamily(model ID), the entry a model is named and ranked by across providers
+  families: Record<string, ModelInfo>;
+  // Keyed by modelKey(provider, family), a priced entry of the family at that provider, for IDs
+  // the provider lists under another alias (dated, undated, Bedrock inference profile)
+  providerFamilies: Record<string, ModelInfo>;
+  source: ModelsSource;
+}
+
+interface ModelsCacheFile {
+  version: number;
+  fetchedAt: number; // Unix ms
+  data: unknown; // models.dev api.json as fetched
+}
+
+interface ModelsDevCost {
+  input?: number;
+  output?: number;
+  reasoning?: number;
+  cache_read?: number;
+  cache_write?: number;
 }
 
 interface ModelsDevModel {
   name?: string;
-  cost?: {
-    input?: number;
-    output?: number;
-    cache_read?: number;
-    cache_write?: number;
-  };
+  cost?: ModelsDevCost;
 }
 
 interface ModelsDevProvider {
@@ -37,127 +60,374 @@ interface ModelsDevProvider {
   models?: Record<string, ModelsDevModel>;
 }
 
+/** A provider in the overrides file: models.dev's shape, plus a logo and a price for all its models */
+interface ModelsOverrideProvider extends ModelsDevProvider {
+  logo?: string;
+  cost?: ModelsDevCost;
+}
+
+interface ProviderOverride {
+  name?: string;
+  logo?: string;
+  cost?: ModelCost; // For the provider's models without a price of their own
+  models: Record<string, { name?: string; cost?: ModelCost }>;
+}
+
+interface ModelOverrides {
+  providers: Record<string, ProviderOverride>;
+  // Keyed by getModelFamily(model ID), for models the overrides file names
+  families: Record<string, { name: string; provider: string }>;
+}
+
+/** Where a model's price came from, see resolveModelPricing */
+export type ModelPricingSource = "override" | "provider" | "family";
+
+// Providers that make the models they serve. Their entry names a model family over a reseller's,
+// e.g. "Claude Sonnet 4" comes from anthropic rather than github-copilot or vertex.
+const MODEL_VENDORS = new Set(["anthropic", "openai", "google", "xai", "mistral", "deepseek", "alibaba", "moonshotai", "zai"]);
+
+const MODELS_DEV_URL = "https://models.dev/api.json";
+const MODELS_CACHE_PATH = join(CACHE_DIR, "models.json");
+const MODELS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Bump when the shape of the cache file changes
+const MODELS_CACHE_VERSION = 1;
+
+// User-maintained prices, names and logos that take precedence over models.dev
+export const MODEL_OVERRIDES_PATH = join(xdgConfig!, "oc-wrapped", "models.json");
+
+// Bedrock IDs start with the vendor ("anthropic."), preceded by a cross-region inference profile
+// ("us.", "us-gov.", "global.", ...) when the model is called through one
+const BEDROCK_PREFIX = /^(?:(?:us|us-gov|eu|apac|jp|au|ca|global)\.)?[a-z][a-z0-9]*\.(?=[a-z])/;
+
 // Cache for the fetched data
 let cachedData: ModelsDevData | null = null;
+let overrides: ModelOverrides = { providers: {}, families: {} };
+let offline = false;
+
+/** Never fetch from models.dev, only use the on-disk cache or the bundled snapshot */
+export function setOffline(value: boolean): void {
+  offline = value;
+}
+
+function modelKey(providerId: string, modelId: string): string {
+  return `${providerId}/${modelId}`;
+}
+
+/**
+ * Canonical ID of the model family a provider-specific model ID belongs to, so the same model
+ * served by different providers is counted once:
+ *   "anthropic/claude-sonnet-4" (OpenRouter), "us.anthropic.claude-sonnet-4-20250514-v1:0" (Bedrock)
+ *   and "claude-sonnet-4@20250514" (Vertex) all become "claude-sonnet-4"
+ */
+export function getModelFamily(modelId: string): string {
+  return modelId
+    .toLowerCase()
+    .replace(/^.*\//, "") // Router prefix: "anthropic/"
+    .replace(BEDROCK_PREFIX, "") // Bedrock inference profile and vendor: "us.anthropic."
+    .replace(/-v\d+:\d+$/, "") // Bedrock version: "-v1:0"
+    .replace(/:[a-z]+$/, "") // Router variant: ":free", ":beta"
+    .replace(/[-@](?:\d{8}|\d{4}-\d{2}-\d{2})$/, ""); // Release date: "-20250514", "@20250514", "-2024-08-06"
+}
 
+/** How well an entry represents its family: the vendor's own undated ID, then any undated ID */
+function familyRank(model: ModelInfo): number {
+  const undated = model.id.toLowerCase() === getModelFamily(model.id);
+  return (undated ? 2 : 0) + (MODEL_VENDORS.has(model.provider) ? 1 : 0);
+}
+
+/** Read the models.dev payload cached by a previous run, if any */
+async function readModelsCache(): Promise<ModelsCacheFile | null> {
+  try {
+    const cache = (await Bun.file(MODELS_CACHE_PATH).json()) as ModelsCacheFile;
+    if (cache.version !== MODELS_CACHE_VERSION || typeof cache.fetchedAt !== "number" || !cache.data) {
+      return null;
+    }
+    return cache;
+  } catch {
+    // Missing or corrupt cache
+    return null;
+  }
+}
+
+async function writeModelsCache(cache: ModelsCacheFile): Promise<void> {
+  const tempPath = `${MODELS_CACHE_PATH}.${process.pid}.tmp`;
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    await Bun.write(tempPath, JSON.stringify(cache));
+    await rename(tempPath, MODELS_CACHE_PATH);
+  } catch {
+    // Caching is best effort, the next run fetches again
+  }
+}
+
+/** Snapshot of models.dev bundled at build time, null if the build couldn't fetch one or when run from source */
+async function readModelsSnapshot(): Promise<{ fetchedAt: number; data: unknown } | null> {
+  let snapshot: { fetchedAt: number | null; data: unknown };
+  try {
+    snapshot = (await import("../assets/models-snapshot.json")).default;
+  } catch {
+    return null; // Not written yet, only builds create it
+  }
+  return snapshot.fetchedAt !== null ? { fetchedAt: snapshot.fetchedAt, data: snapshot.data } : null;
+}
+
+async function downloadModelsDevData(): Promise<unknown> {
+  const response = await fetch(MODELS_DEV_URL, {
+    signal: AbortSignal.timeout(5000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/** Use the given models.dev payload instead of loading one, e.g. in tests */
+export function setModelsData(data: unknown): void {
+  cachedData = parseModelsDevData(data, { kind: "live", fetchedAt: Date.now() });
+}
+
+/**
+ * Load models.dev data and the overrides file. models.dev data comes from, in order: a cache
+ * younger than MODELS_CACHE_TTL_MS, the models.dev API, a cache of any age and the snapshot
+ * bundled at build time. With `setOffline`, the API is skipped.
+ */
 export async function fetchModelsData(): Promise<ModelsDevData> {
   if (cachedData) {
     return cachedData;
   }
 
-  try {
-    const response = await fetch("https://models.dev/api.json", {
-      signal: AbortSignal.timeout(5000),
-    });
+  [cachedData, overrides] = await Promise.all([loadModelsDevData(), readModelOverrides()]);
+  return cachedData;
+}
+
+async function loadModelsDevData(): Promise<ModelsDevData> {
+  const cache = await readModelsCache();
+  if (cache && Date.now() - cache.fetchedAt < MODELS_CACHE_TTL_MS) {
+    return parseModelsDevData(cache.data, { kind: "cache", fetchedAt: cache.fetchedAt });
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+  if (!offline) {
+    try {
+      const data = await downloadModelsDevData();
+      const fetchedAt = Date.now();
+      await writeModelsCache({ version: MODELS_CACHE_VERSION, fetchedAt, data });
+      return parseModelsDevData(data, { kind: "live", fetchedAt });
+    } catch {
+      // Fall back to older data below
     }
+  }
+
+  if (cache) {
+    return parseModelsDevData(cache.data, { kind: "cache", fetchedAt: cache.fetchedAt });
+  }
 
-    const data = await response.json();
+  const snapshot = await readModelsSnapshot();
+  if (snapshot) {
+    return parseModelsDevData(snapshot.data, { kind: "snapshot", fetchedAt: snapshot.fetchedAt });
+  }
+
+  console.warn(
+    offline
+      ? "No cached or bundled models.dev data for --offline, using fallbacks"
+      : "Failed to fetch models.dev data, using fallbacks"
+  );
+  return parseModelsDevData({}, { kind: "none", fetchedAt: null });
+}
+
+/** Read the overrides file. A missing file means no overrides; an invalid one is reported and skipped. */
+async function readModelOverrides(): Promise<ModelOverrides> {
+  const result: ModelOverrides = { providers: {}, families: {} };
+
+  const file = Bun.file(MODEL_OVERRIDES_PATH);
+  if (!(await file.exists())) {
+    return result;
+  }
+
+  let data: unknown;
+  try {
+    data = await file.json();
+  } catch (error) {
+    console.warn(`Ignoring ${MODEL_OVERRIDES_PATH}: ${error instanceof Error ? error.message : error}`);
+    return result;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    console.warn(`Ignoring ${MODEL_OVERRIDES_PATH}: expected an object of providers`);
+    return result;
+  }
 
-    const models: Record<string, ModelInfo> = {};
-    const providers: Record<string, ProviderInfo> = {};
+  for (const [providerId, providerData] of Object.entries(data)) {
+    if (!providerData || typeof providerData !== "object") continue;
 
-    if (data && typeof data === "object") {
-      for (const [providerId, providerData] of Object.entries(data)) {
-        if (!providerData || typeof providerData !== "object") continue;
+    const pd = providerData as ModelsOverrideProvider;
+    const provider: ProviderOverride = {
+      name: typeof pd.name === "string" ? pd.name : undefined,
+      logo: typeof pd.logo === "string" ? pd.logo : undefined,
+      cost: parseModelCost(pd.cost),
+      models: {},
+    };
 
-        const pd = providerData as ModelsDevProvider;
+    if (pd.models && typeof pd.models === "object") {
+      for (const [modelId, modelData] of Object.entries(pd.models)) {
+        if (!modelData || typeof modelData !== "object") continue;
 
-        if (pd.name) {
-          providers[providerId] = {
-            id: providerId,
-            name: pd.name,
-          };
+        const name = typeof modelData.name === "string" ? modelData.name : undefined;
+        provider.models[modelId] = { name, cost: parseModelCost(modelData.cost) };
+        if (name) {
+          result.families[getModelFamily(modelId)] = { name, provider: providerId };
         }
+      }
+    }
+
+    result.providers[providerId] = provider;
+  }
+
+  return result;
+}
+
+/** Where the model names and prices in use came from */
+export function getModelsSource(): ModelsSource {
+  return cachedData?.source ?? { kind: "none", fetchedAt: null };
+}
+
+/** models.dev cost (USD per million tokens) in our shape, if it has at least input and output prices */
+function parseModelCost(costData: ModelsDevCost | undefined): ModelCost | undefined {
+  if (!costData || typeof costData !== "object") return undefined;
+  if (typeof costData.input !== "number" || typeof costData.output !== "number") return undefined;
+  return {
+    input: costData.input,
+    output: costData.output,
+    reasoning: costData.reasoning,
+    cacheRead: costData.cache_read,
+    cacheWrite: costData.cache_write,
+  };
+}
 
-        if (pd.models && typeof pd.models === "object") {
-          for (const [modelId, modelData] of Object.entries(pd.models)) {
-            if (modelData && typeof modelData === "object" && modelData.name) {
-              const model: ModelInfo = {
-                id: modelId,
-                name: modelData.name,
-                provider: providerId,
-              };
-
-              // Extract pricing data if available
-              if (modelData.cost && typeof modelData.cost === "object") {
-                const costData = modelData.cost as {
-                  input?: number;
-                  output?: number;
-                  cache_read?: number;
-                  cache_write?: number;
-                };
-                if (typeof costData.input === "number" && typeof costData.output === "number") {
-                  model.cost = {
-                    input: costData.input,
-                    output: costData.output,
-                    cacheRead: costData.cache_read,
-                    cacheWrite: costData.cache_write,
-                  };
-                }
-              }
-
-              models[modelId] = model;
+function parseModelsDevData(data: unknown, source: ModelsSource): ModelsDevData {
+  const models: Record<string, ModelInfo> = {};
+  const providers: Record<string, ProviderInfo> = {};
+  const families: Record<string, ModelInfo> = {};
+  const providerFamilies: Record<string, ModelInfo> = {};
+
+  if (data && typeof data === "object") {
+    for (const [providerId, providerData] of Object.entries(data)) {
+      if (!providerData || typeof providerData !== "object") continue;
+
+      const pd = providerData as ModelsDevProvider;
+
+      if (pd.name) {
+        providers[providerId] = {
+          id: providerId,
+          name: pd.name,
+        };
+      }
+
+      if (pd.models && typeof pd.models === "object") {
+        for (const [modelId, modelData] of Object.entries(pd.models)) {
+          if (modelData && typeof modelData === "object" && modelData.name) {
+            const model: ModelInfo = {
+              id: modelId,
+              name: modelData.name,
+              provider: providerId,
+            };
+
+            // Extract pricing data if available
+            const cost = parseModelCost(modelData.cost);
+            if (cost) {
+              model.cost = cost;
+            }
+
+            models[modelKey(providerId, modelId)] = model;
+
+            const family = getModelFamily(modelId);
+            if (!families[family] || familyRank(model) > familyRank(families[family])) {
+              families[family] = model;
+            }
+
+            // The undated ID is the one the provider keeps current
+            const providerFamilyKey = modelKey(providerId, family);
+            const current = providerFamilies[providerFamilyKey];
+            if (cost && (!current || (modelId.toLowerCase() === family && current.id.toLowerCase() !== family))) {
+              providerFamilies[providerFamilyKey] = model;
             }
           }
         }
       }
     }
-
-    cachedData = { models, providers };
-    return cachedData;
-  } catch (error) {
-    console.warn("Failed to fetch models.dev data, using fallbacks");
-    cachedData = { models: {}, providers: {} };
-    return cachedData;
   }
+
+  return { models, providers, families, providerFamilies, source };
 }
 
+/** Display name of the model family, e.g. "Claude Sonnet 4" for any provider's ID of it */
 export function getModelDisplayName(modelId: string): string {
+  const family = getModelFamily(modelId);
   if (!cachedData) {
     console.warn("Models data not prefetched, using fallback formatting");
-    return formatModelIdAsName(modelId);
+    return formatModelIdAsName(family);
   }
 
-  if (cachedData.models[modelId]?.name) {
-    return cachedData.models[modelId].name;
-  }
-
-  return formatModelIdAsName(modelId);
+  return overrides.families[family]?.name ?? cachedData.families[family]?.name ?? formatModelIdAsName(family);
 }
 
+/** Provider the model family is listed under, the vendor where models.dev has it */
 export function getModelProvider(modelId: string): string {
   if (!cachedData) {
     console.warn("Models data not prefetched");
     return "unknown";
   }
 
-  if (cachedData.models[modelId]?.provider) {
-    return cachedData.models[modelId].provider;
-  }
-
-  return "unknown";
+  const family = getModelFamily(modelId);
+  return overrides.families[family]?.provider ?? cachedData.families[family]?.provider ?? "unknown";
 }
 
 export function getProviderDisplayName(providerId: string): string {
-  if (cachedData?.providers[providerId]?.name) {
-    return cachedData.providers[providerId].name;
+  const name = overrides.providers[providerId]?.name ?? cachedData?.providers[providerId]?.name;
+  if (name) {
+    return name;
   }
 
   return providerId.charAt(0).toUpperCase() + providerId.slice(1);
 }
 
 export function getProviderLogoUrl(providerId: string): string {
-  return `https://models.dev/logos/${providerId}.svg`;
+  return overrides.providers[providerId]?.logo ?? `https://models.dev/logos/${providerId}.svg`;
 }
 
-export function getModelPricing(modelId: string): ModelCost | undefined {
+/**
+ * Price of a model as billed by the provider that served it, and where the price came from.
+ * The overrides file wins, first for the model and then for the whole provider. Prices differ
+ * between providers of the same model, so a listed provider's model is priced from that provider,
+ * by its exact ID or else another of its IDs for the same family. Only providers models.dev
+ * doesn't list fall back to the family's price.
+ */
+export function resolveModelPricing(
+  providerId: string | undefined,
+  modelId: string
+): { cost: ModelCost; source: ModelPricingSource } | undefined {
+  const providerOverride = providerId ? overrides.providers[providerId] : undefined;
+  const overrideCost = providerOverride?.models[modelId]?.cost ?? providerOverride?.cost;
+  if (overrideCost) {
+    return { cost: overrideCost, source: "override" };
+  }
+
   if (!cachedData) {
     return undefined;
   }
-  return cachedData.models[modelId]?.cost;
+  if (providerId && cachedData.providers[providerId]) {
+    const cost =
+      cachedData.models[modelKey(providerId, modelId)]?.cost ??
+      cachedData.providerFamilies[modelKey(providerId, getModelFamily(modelId))]?.cost;
+    return cost && { cost, source: "provider" };
+  }
+  const cost = cachedData.families[getModelFamily(modelId)]?.cost;
+  return cost && { cost, source: "family" };
+}
+
+export function getModelPricing(providerId: string | undefined, modelId: string): ModelCost | undefined {
+  return resolveModelPricing(providerId, modelId)?.cost;
 }
 
 function formatModelIdAsName(modelId: string): string {
@@ -0,0 +1,171 @@
+import { describe, expect, test } from "bun:test";
+import { classifyPersona, type PersonaRules, type PersonaStats } from "./persona";
+import type { AgentStats } from "./types";
+
+const MINUTE = 60 * 1000;
+
+/** Messages spread evenly over the hours of `hours`, none elsewhere */
+function hourCounts(hours: number[]): number[] {
+  const counts = new Array<number>(24).fill(0);
+  for (const hour of hours) counts[hour] = 10;
+  return counts;
+}
+
+function agent(id: string, messageShare: number): AgentStats {
+  return { id, name: id, builtIn: true, messages: 0, tokens: 0, cost: 0, messageShare, tokenShare: 0, costShare: 0 };
+}
+
+/**
+ * Stats that match no trait: afternoon weekday messages outside office hours, a few mid-length
+ * sessions, short streaks and three models. Each test changes only what its trait looks at.
+ */
+function makeStats(overrides: Partial<PersonaStats> = {}): PersonaStats {
+  return {
+    totalSessions: 5,
+    totalMessages: 200,
+    totalModels: 3,
+    maxStreak: 3,
+    topModels: [{ id: "claude-sonnet-4", name: "Claude Sonnet 4", providerId: "anthropic", count: 200, percentage: 0 }],
+    agents: [agent("build", 1)],
+    sessionTime: { totalActiveMs: 0, longestSession: null, medianSessionMs: 30 * MINUTE, histogram: [] },
+    hourActivity: { counts: hourCounts([17, 18, 19, 20, 21]), peakHour: 17, peakHourLabel: "5pm", maxCount: 10, chronotype: "daytime" },
+    weekdayActivity: { counts: [0, 10, 10, 10, 10, 10, 0], mostActiveDay: 1, mostActiveDayName: "Monday", maxCount: 10 },
+    ...overrides,
+  } as PersonaStats;
+}
+
+describe("classifyPersona with DEFAULT_PERSONA_RULES", () => {
+  test("falls back to The Builder when nothing matches", () => {
+    const persona = classifyPersona(makeStats());
+    expect(persona.id).toBe("builder");
+    expect(persona.name).toBe("The Builder");
+    expect(persona.traits).toEqual(["builder"]);
+    expect(persona.description).toBe("You shipped across 5 sessions.");
+  });
+
+  describe("rhythm traits", () => {
+    const cases: [id: string, label: string, overrides: Partial<PersonaStats>][] = [
+      [
+        "night-owl",
+        "Night Owl",
+        { hourActivity: { ...makeStats().hourActivity, counts: hourCounts([22, 23, 0, 1]), chronotype: "night-owl" } },
+      ],
+      [
+        "early-bird",
+        "Early Bird",
+        { hourActivity: { ...makeStats().hourActivity, counts: hourCounts([5, 6, 7]), chronotype: "early-bird" } },
+      ],
+      [
+        "weekend",
+        "Weekend",
+        { weekdayActivity: { ...makeStats().weekdayActivity, counts: [20, 5, 5, 5, 5, 5, 20] } },
+      ],
+      [
+        "nine-to-five",
+        "Nine-to-Five",
+        { hourActivity: { ...makeStats().hourActivity, counts: hourCounts([9, 10, 11, 13, 14, 15]) } },
+      ],
+    ];
+
+    for (const [id, label, overrides] of cases) {
+      test(`${id} combines with the fallback style`, () => {
+        const persona = classifyPersona(makeStats(overrides));
+        expect(persona.id).toBe(`${id}-builder`);
+        expect(persona.name).toBe(`${label} Builder`);
+        expect(persona.traits).toEqual([id, "builder"]);
+      });
+    }
+  });
+
+  describe("style traits", () => {
+    const cases: [id: string, label: string, overrides: Partial<PersonaStats>][] = [
+      ["architect", "Architect", { agents: [agent("build", 0.6), agent("plan", 0.4)] }],
+      [
+        "marathoner",
+        "Marathoner",
+        { sessionTime: { ...makeStats().sessionTime, medianSessionMs: 90 * MINUTE } },
+      ],
+      ["streaker", "Streaker", { maxStreak: 21 }],
+      ["explorer", "Explorer", { totalModels: 6 }],
+      ["loyalist", "Loyalist", { totalModels: 1 }],
+      [
+        "sprinter",
+        "Sprinter",
+        { totalSessions: 40, sessionTime: { ...makeStats().sessionTime, medianSessionMs: 5 * MINUTE } },
+      ],
+    ];
+
+    for (const [id, label, overrides] of cases) {
+      test(`${id} is named on its own without a rhythm`, () => {
+        const persona = classifyPersona(makeStats(overrides));
+        expect(persona.id).toBe(id);
+        expect(persona.name).toBe(`The ${label}`);
+        expect(persona.traits).toEqual([id]);
+      });
+    }
+  });
+
+  test("explains both traits in the description", () => {
+    const persona = classifyPersona(
+      makeStats({
+        hourActivity: { ...makeStats().hourActivity, counts: hourCounts([22, 23, 0, 1]), chronotype: "night-owl" },
+        maxStreak: 21,
+      })
+    );
+    expect(persona.name).toBe("Night Owl Streaker");
+    expect(persona.description).toBe("You sent 100% of your messages between 10pm and 5am and coded 21 days in a row.");
+  });
+
+  test("takes the first matching trait of each kind, in rule order", () => {
+    // Night owl and weekend both match, as do architect, streaker and explorer
+    const persona = classifyPersona(
+      makeStats({
+        hourActivity: { ...makeStats().hourActivity, counts: hourCounts([22, 23, 0, 1]), chronotype: "night-owl" },
+        weekdayActivity: { ...makeStats().weekdayActivity, counts: [20, 5, 5, 5, 5, 5, 20] },
+        agents: [agent("plan", 0.5), agent("build", 0.5)],
+        maxStreak: 30,
+        totalModels: 8,
+      })
+    );
+    expect(persona.traits).toEqual(["night-owl", "architect"]);
+  });
+
+  test("a loyalist needs enough messages to count", () => {
+    expect(classifyPersona(makeStats({ totalModels: 1, totalMessages: 10 })).id).toBe("builder");
+  });
+});
+
+describe("classifyPersona with custom rules", () => {
+  const rules: PersonaRules = {
+    rhythm: [
+      {
+        id: "daily",
+        label: "Daily",
+        matches: (stats) => stats.maxStreak >= 3,
+        reason: (stats) => `showed up ${stats.maxStreak} days running`,
+      },
+    ],
+    style: [
+      {
+        id: "chatty",
+        label: "Talker",
+        matches: (stats) => stats.totalMessages >= 1000,
+        reason: () => "never stopped talking",
+      },
+    ],
+    fallbackStyle: { id: "coder", label: "Coder", reason: () => "wrote code" },
+  };
+
+  test("uses only the given rules", () => {
+    const persona = classifyPersona(makeStats({ totalMessages: 1500, totalModels: 8 }), rules);
+    expect(persona.id).toBe("daily-chatty");
+    expect(persona.name).toBe("Daily Talker");
+    expect(persona.description).toBe("You showed up 3 days running and never stopped talking.");
+  });
+
+  test("uses the given fallback style", () => {
+    const persona = classifyPersona(makeStats({ maxStreak: 1 }), rules);
+    expect(persona.name).toBe("The Coder");
+    expect(persona.description).toBe("You wrote code.");
+  });
+});
@@ -0,0 +1,151 @@
+import type { OpenCodeStats, Persona } from "./types";
+import { formatDuration, formatNumber } from "./utils/format";
+
+/** Stats a persona is classified from (everything but the persona itself) */
+export type PersonaStats = Omit<OpenCodeStats, "persona" | "comparison">;
+
+/**
+ * One rule of the classifier. The first matching rhythm trait and the first matching
+ * style trait are combined into the persona name, e.g. "Night Owl" + "Architect".
+ */
+export interface PersonaTrait {
+  id: string;
+  label: string;
+  matches: (stats: PersonaStats) => boolean;
+  /** Why the trait applies, phrased to follow "you" or stand alone, e.g. "planned in 38% of your turns" */
+  reason: (stats: PersonaStats) => string;
+}
+
+export interface PersonaRules {
+  /** When you code: time of day and day of week */
+  rhythm: PersonaTrait[];
+  /** How you code: sessions, models, agents and streaks */
+  style: PersonaTrait[];
+  /** Used when no style trait matches */
+  fallbackStyle: Omit<PersonaTrait, "matches">;
+}
+
+// Hours counted as night and early morning, matching the chronotype in HourActivity
+const NIGHT_HOURS = [22, 23, 0, 1, 2, 3, 4];
+const MORNING_HOURS = [5, 6, 7, 8];
+const OFFICE_HOURS = [9, 10, 11, 12, 13, 14, 15, 16];
+
+const MIN_WEEKEND_SHARE = 0.4;
+const MIN_OFFICE_HOURS_SHARE = 0.7;
+const MIN_PLAN_SHARE = 0.3;
+const MIN_MARATHON_SESSION_MS = 60 * 60 * 1000;
+const MAX_SPRINT_SESSION_MS = 10 * 60 * 1000;
+const MIN_SPRINT_SESSIONS = 10;
+const MIN_STREAK_DAYS = 14;
+const MIN_EXPLORER_MODELS = 5;
+const MIN_LOYALIST_MESSAGES = 50;
+
+function hourShare(stats: PersonaStats, hours: number[]): number {
+  const total = stats.hourActivity.counts.reduce((sum, count) => sum + count, 0);
+  return total > 0 ? hours.reduce((sum, hour) => sum + stats.hourActivity.counts[hour], 0) / total : 0;
+}
+
+function weekendShare(stats: PersonaStats): number {
+  const { counts } = stats.weekdayActivity;
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return total > 0 ? (counts[0] + counts[6]) / total : 0;
+}
+
+function agentShare(stats: PersonaStats, agentID: string): number {
+  return stats.agents.find((agent) => agent.id === agentID)?.messageShare ?? 0;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+export const DEFAULT_PERSONA_RULES: PersonaRules = {
+  rhythm: [
+    {
+      id: "night-owl",
+      label: "Night Owl",
+      matches: (stats) => stats.hourActivity.chronotype === "night-owl",
+      reason: (stats) => `sent ${percent(hourShare(stats, NIGHT_HOURS))} of your messages between 10pm and 5am`,
+    },
+    {
+      id: "early-bird",
+      label: "Early Bird",
+      matches: (stats) => stats.hourActivity.chronotype === "early-bird",
+      reason: (stats) => `sent ${percent(hourShare(stats, MORNING_HOURS))} of your messages before 9am`,
+    },
+    {
+      id: "weekend",
+      label: "Weekend",
+      matches: (stats) => weekendShare(stats) >= MIN_WEEKEND_SHARE,
+      reason: (stats) => `sent ${percent(weekendShare(stats))} of your messages on weekends`,
+    },
+    {
+      id: "nine-to-five",
+      label: "Nine-to-Five",
+      matches: (stats) => hourShare(stats, OFFICE_HOURS) >= MIN_OFFICE_HOURS_SHARE,
+      reason: (stats) => `sent ${percent(hourShare(stats, OFFICE_HOURS))} of your messages during office hours`,
+    },
+  ],
+  style: [
+    {
+      id: "architect",
+      label: "Architect",
+      matches: (stats) => agentShare(stats, "plan") >= MIN_PLAN_SHARE,
+      reason: (stats) => `planned in ${percent(agentShare(stats, "plan"))} of your turns`,
+    },
+    {
+      id: "marathoner",
+      label: "Marathoner",
+      matches: (stats) => stats.sessionTime.medianSessionMs >= MIN_MARATHON_SESSION_MS,
+      reason: (stats) => `kept your typical session going for ${formatDuration(stats.sessionTime.medianSessionMs)}`,
+    },
+    {
+      id: "streaker",
+      label: "Streaker",
+      matches: (stats) => stats.maxStreak >= MIN_STREAK_DAYS,
+      reason: (stats) => `coded ${stats.maxStreak} days in a row`,
+    },
+    {
+      id: "explorer",
+      label: "Explorer",
+      matches: (stats) => stats.totalModels >= MIN_EXPLORER_MODELS,
+      reason: (stats) => `tried ${stats.totalModels} different models`,
+    },
+    {
+      id: "loyalist",
+      label: "Loyalist",
+      matches: (stats) => stats.totalModels === 1 && stats.totalMessages >= MIN_LOYALIST_MESSAGES,
+      reason: (stats) => `stuck with ${stats.topModels[0]?.name ?? "one model"} the whole time`,
+    },
+    {
+      id: "sprinter",
+      label: "Sprinter",
+      matches: (stats) =>
+        stats.totalSessions >= MIN_SPRINT_SESSIONS && stats.sessionTime.medianSessionMs <= MAX_SPRINT_SESSION_MS,
+      reason: (stats) => `wrapped up your typical session in ${formatDuration(stats.sessionTime.medianSessionMs)}`,
+    },
+  ],
+  fallbackStyle: {
+    id: "builder",
+    label: "Builder",
+    reason: (stats) => `shipped across ${formatNumber(stats.totalSessions)} sessions`,
+  },
+};
+
+/**
+ * Assign a persona such as "Night Owl Architect", with a one-line explanation of why
+ *
+ * @param rules - Rules to classify with, checked in order (default: DEFAULT_PERSONA_RULES)
+ */
+export function classifyPersona(stats: PersonaStats, rules: PersonaRules = DEFAULT_PERSONA_RULES): Persona {
+  const rhythm = rules.rhythm.find((trait) => trait.matches(stats));
+  const style = rules.style.find((trait) => trait.matches(stats)) ?? rules.fallbackStyle;
+
+  const reasons = [rhythm, style].filter((trait) => trait !== undefined).map((trait) => trait.reason(stats));
+  const description = `You ${reasons.join(" and ")}.`;
+
+  return {
+    id: rhythm ? `${rhythm.id}-${style.id}` : style.id,
+    name: rhythm ? `${rhythm.label} ${style.label}` : `The ${style.label}`,
+    description,
+    traits: rhythm ? [rhythm.id, style.id] : [style.id],
+  };
+}
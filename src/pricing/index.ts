@@ -0,0 +1,134 @@
+import * as p from "@clack/prompts";
+import { collectMessages, finishCollection } from "../collector";
+import { fetchModelsData, getModelsSource, getProviderDisplayName, MODEL_OVERRIDES_PATH, resolveModelPricing } from "../models";
+import type { ModelCost } from "../models";
+import { getMessageCost, getMessagePricingSource } from "../stats";
+import type { DateRange, MessageData, ModelsSource } from "../types";
+import { formatModelsSource, formatNumber } from "../utils/format";
+
+type PricingSource = ReturnType<typeof getMessagePricingSource>;
+
+interface PricedModel {
+  providerID: string;
+  modelID: string;
+  source: PricingSource;
+  messages: number;
+  cost: number;
+}
+
+interface PricingReport {
+  range: DateRange;
+  modelsSource: ModelsSource;
+  overridesPath: string | null; // Null when there is no overrides file
+  models: (PricedModel & { price: ModelCost | null })[]; // Price per 1M tokens, null for Zen and unpriced models
+  totalMessages: number;
+  unpricedMessages: number;
+}
+
+export interface PricingOptions {
+  /** Print the report as JSON instead of the interactive summary */
+  json?: boolean;
+}
+
+// Report sections, in the order they are printed
+const SOURCE_TITLES: [source: PricingSource, title: string][] = [
+  ["zen", "Billed by OpenCode Zen"],
+  ["override", "Priced from your overrides file"],
+  ["provider", "Priced from models.dev"],
+  ["family", "Priced as the same model at another provider (models.dev)"],
+  ["unpriced", "Not priced, counted as $0"],
+];
+
+function groupByModel(messages: MessageData[]): PricedModel[] {
+  const groups = new Map<string, PricedModel>();
+
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+
+    const providerID = message.providerID ?? "unknown";
+    const modelID = message.modelID ?? "unknown";
+    const key = `${providerID}/${modelID}`;
+    const group = groups.get(key) ?? {
+      providerID,
+      modelID,
+      source: getMessagePricingSource(message),
+      messages: 0,
+      cost: 0,
+    };
+    group.messages++;
+    group.cost += getMessageCost(message);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.messages - a.messages);
+}
+
+/** Price per 1M tokens the estimate used, Zen messages are billed instead */
+function getModelPrice(model: PricedModel): ModelCost | undefined {
+  if (model.source === "zen") return undefined;
+  return resolveModelPricing(model.providerID, model.modelID)?.cost;
+}
+
+function formatModelName(model: PricedModel): string {
+  return `${getProviderDisplayName(model.providerID)} / ${model.modelID}`;
+}
+
+function formatModelLine(model: PricedModel, nameWidth: number): string {
+  const messages = `${formatNumber(model.messages)} messages`;
+  const price = getModelPrice(model);
+  const rate = price ? `  $${price.input}/$${price.output} per 1M in/out` : "";
+  return `${formatModelName(model).padEnd(nameWidth)} ${messages.padStart(14)}  $${model.cost.toFixed(2)}${rate}`;
+}
+
+/**
+ * Print which assistant messages in the range were priced from which source, per provider and model
+ *
+ * @returns Process exit code: always 0, unpriced messages aren't an error
+ */
+export async function runPricing(range: DateRange, { json = false }: PricingOptions = {}): Promise<number> {
+  const collectionStart = performance.now();
+  const [messages] = await Promise.all([collectMessages(range), fetchModelsData()]);
+  await finishCollection(performance.now() - collectionStart);
+
+  const hasOverrides = await Bun.file(MODEL_OVERRIDES_PATH).exists();
+  const models = groupByModel(messages);
+  const total = models.reduce((sum, model) => sum + model.messages, 0);
+  const unpriced = models.filter((model) => model.source === "unpriced").reduce((sum, model) => sum + model.messages, 0);
+
+  if (json) {
+    const report: PricingReport = {
+      range,
+      modelsSource: getModelsSource(),
+      overridesPath: hasOverrides ? MODEL_OVERRIDES_PATH : null,
+      models: models.map((model) => ({ ...model, price: getModelPrice(model) ?? null })),
+      totalMessages: total,
+      unpricedMessages: unpriced,
+    };
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+
+  p.log.info(`Models data: ${formatModelsSource(getModelsSource())}`);
+  p.log.info(hasOverrides ? `Overrides: ${MODEL_OVERRIDES_PATH}` : `No overrides file at ${MODEL_OVERRIDES_PATH}`);
+
+  if (models.length === 0) {
+    p.outro(`No assistant messages found for ${range.label}`);
+    return 0;
+  }
+
+  // One width for every section, so the columns line up down the whole report
+  const nameWidth = Math.max(...models.map((model) => formatModelName(model).length));
+  for (const [source, title] of SOURCE_TITLES) {
+    const lines = models.filter((model) => model.source === source).map((model) => formatModelLine(model, nameWidth));
+    if (lines.length > 0) {
+      p.note(lines.join("\n"), title);
+    }
+  }
+
+  p.outro(
+    unpriced > 0
+      ? `${formatNumber(unpriced)} of ${formatNumber(total)} messages in ${range.label} have no price, add them to ${MODEL_OVERRIDES_PATH}`
+      : `All ${formatNumber(total)} messages in ${range.label} are priced`
+  );
+  return 0;
+}
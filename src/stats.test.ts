@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { calculateStreaks, getFinishReason } from "./stats";
+import { formatDateKey, getYearRange, setTimeZone } from "./utils/dates";
+import type { DateRange, MessageData } from "./types";
+
+/** Daily activity as collected: one message per timestamp, bucketed by the configured zone */
+function activityAt(...isoTimestamps: string[]): Map<string, number> {
+  const activity = new Map<string, number>();
+  for (const iso of isoTimestamps) {
+    const key = formatDateKey(new Date(iso));
+    activity.set(key, (activity.get(key) || 0) + 1);
+  }
+  return activity;
+}
+
+function customRange(start: string, end: string): DateRange {
+  return { kind: "custom", start, end, year: Number(end.slice(0, 4)), label: `${start} – ${end}` };
+}
+
+afterEach(() => setTimeZone(undefined));
+
+describe("calculateStreaks", () => {
+  test("keeps a streak going across the spring-forward night", () => {
+    setTimeZone("America/New_York");
+    // 23:30 local each evening; the UTC hour shifts from 04:30 to 03:30 after the change
+    const activity = activityAt(
+      "2025-03-08T04:30:00Z",
+      "2025-03-09T04:30:00Z",
+      "2025-03-10T03:30:00Z",
+      "2025-03-11T03:30:00Z"
+    );
+    const { maxStreak, maxStreakDays } = calculateStreaks(activity, getYearRange(2025));
+    expect(maxStreak).toBe(4);
+    expect([...maxStreakDays]).toEqual(["2025-03-07", "2025-03-08", "2025-03-09", "2025-03-10"]);
+  });
+
+  test("keeps a streak going across the fall-back night", () => {
+    setTimeZone("America/New_York");
+    // 00:30 local each night, including the 25-hour day of Nov 2
+    const activity = activityAt("2025-11-01T04:30:00Z", "2025-11-02T04:30:00Z", "2025-11-03T05:30:00Z");
+    const { maxStreak, maxStreakDays } = calculateStreaks(activity, getYearRange(2025));
+    expect(maxStreak).toBe(3);
+    expect([...maxStreakDays]).toEqual(["2025-11-01", "2025-11-02", "2025-11-03"]);
+  });
+
+  test("does not double count the repeated hour as two days", () => {
+    setTimeZone("America/New_York");
+    // 01:30 EDT and 01:30 EST are the same local day
+    const activity = activityAt("2025-11-02T05:30:00Z", "2025-11-02T06:30:00Z");
+    expect(activity.get("2025-11-02")).toBe(2);
+    expect(calculateStreaks(activity, getYearRange(2025)).maxStreak).toBe(1);
+  });
+
+  test("keeps a streak going across the 30-minute Lord Howe shift", () => {
+    setTimeZone("Australia/Lord_Howe");
+    // 23:45 local each evening, at +10:30 and then +11:00
+    const activity = activityAt("2025-10-04T13:15:00Z", "2025-10-05T12:45:00Z", "2025-10-06T12:45:00Z");
+    expect(calculateStreaks(activity, getYearRange(2025)).maxStreak).toBe(3);
+  });
+
+  test("runs across Dec 31 and Jan 1 when the range spans both years", () => {
+    setTimeZone("America/New_York");
+    const activity = activityAt(
+      "2024-12-30T17:00:00Z",
+      "2024-12-31T17:00:00Z",
+      "2025-01-01T17:00:00Z",
+      "2025-01-02T17:00:00Z"
+    );
+    expect(calculateStreaks(activity, customRange("2024-12-01", "2025-01-31")).maxStreak).toBe(4);
+  });
+
+  test("only counts the days inside a year range", () => {
+    setTimeZone("America/New_York");
+    // 23:30 local on Dec 31 is already Jan 1 in UTC, but belongs to 2024
+    const activity = activityAt("2024-12-31T04:30:00Z", "2025-01-01T04:30:00Z", "2025-01-02T04:30:00Z");
+    expect(calculateStreaks(activity, getYearRange(2024)).maxStreak).toBe(2);
+    expect(calculateStreaks(activity, getYearRange(2025)).maxStreak).toBe(1);
+  });
+});
+
+describe("getFinishReason", () => {
+  const turn = (fields: Partial<MessageData>): MessageData => ({
+    id: "msg",
+    sessionID: "ses",
+    role: "assistant",
+    time: { created: 0 },
+    ...fields,
+  });
+
+  test("uses the recorded finish reason", () => {
+    expect(getFinishReason(turn({ finish: "stop" }))).toBe("stop");
+    expect(getFinishReason(turn({ finish: "length" }))).toBe("length");
+    expect(getFinishReason(turn({}))).toBe("unknown");
+  });
+
+  test("tells interrupted, truncated and failed turns apart by their error", () => {
+    expect(getFinishReason(turn({ error: { name: "MessageAbortedError" } }))).toBe("aborted");
+    expect(getFinishReason(turn({ error: { name: "MessageOutputLengthError" } }))).toBe("length");
+    expect(getFinishReason(turn({ error: { name: "APIError" }, finish: "stop" }))).toBe("error");
+  });
+});
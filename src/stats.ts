@@ -1,18 +1,149 @@
-import type { OpenCodeStats, ModelStats, ProviderStats, WeekdayActivity } from "./types";
-import { collectMessages, collectProjects, collectSessions } from "./collector";
-import { fetchModelsData, getModelDisplayName, getModelProvider, getProviderDisplayName, getModelPricing, type ModelCost } from "./models";
+import { homedir } from "node:os";
+import { basename, sep } from "node:path";
+import type {
+  OpenCodeStats,
+  ModelStats,
+  ProviderStats,
+  ToolStats,
+  LatencyStats,
+  CacheStats,
+  FinishStats,
+  FinishReasonStats,
+  Achievement,
+  MonthlyStats,
+  MonthlyTotals,
+  YearlyStats,
+  SpendStats,
+  HeatmapMetric,
+  ProjectStats,
+  ProjectNameMode,
+  AgentStats,
+  WeekdayActivity,
+  HourActivity,
+  SessionTimeStats,
+  SessionData,
+  MessageData,
+  PartData,
+  ProjectData,
+  CollectionInfo,
+  DateRange,
+} from "./types";
+import {
+  collectMessages,
+  collectParts,
+  collectProjects,
+  collectSessions,
+  finishCollection,
+  summarizeSources,
+} from "./collector";
+import { formatHour } from "./utils/format";
+import { addDays, formatDateKey, getAllTimeRange, getMonthRange, getMonthsInRange, getYearRange, isDateKeyInRange, isTimestampInRange, parseDateKey, toZonedTime } from "./utils/dates";
+import { classifyPersona } from "./persona";
+import { evaluateAchievements } from "./achievements";
+import {
+  fetchModelsData,
+  getModelsSource,
+  getModelDisplayName,
+  getModelFamily,
+  getModelProvider,
+  getProviderDisplayName,
+  getModelPricing,
+  resolveModelPricing,
+  type ModelCost,
+  type ModelPricingSource,
+} from "./models";
 
-export async function calculateStats(year: number): Promise<OpenCodeStats> {
-  const [, allSessions, messages, projects] = await Promise.all([
-    fetchModelsData(),
+export interface StatsOptions {
+  /** Also compute stats for this range and attach them as `comparison` */
+  compareTo?: DateRange;
+  /** Gap between messages after which a session counts as idle (default: 30) */
+  idleGapMinutes?: number;
+  /** How to show project names (default: full) */
+  projectNames?: ProjectNameMode;
+  /** What the activity heatmap colors days by (default: messages) */
+  heatmapMetric?: HeatmapMetric;
+  /** Monthly spend budget in USD to check the month forecast against */
+  monthlyBudget?: number;
+}
+
+const DEFAULT_IDLE_GAP_MINUTES = 30;
+
+/** Trailing days whose average spend is projected forward in the forecasts */
+const SPEND_RUN_RATE_DAYS = 30;
+
+/** Completed messages a model or provider needs before its latency is worth comparing */
+export const MIN_LATENCY_SAMPLES = 5;
+
+// Agents shipped with OpenCode and their display names, anything else is user-defined
+const BUILT_IN_AGENTS = new Map([
+  ["build", "Build"],
+  ["plan", "Plan"],
+  ["general", "General"],
+  ["explore", "Explore"],
+  ["compaction", "Compaction"],
+]);
+
+// Upper bounds (exclusive) of the session length histogram buckets
+const SESSION_LENGTH_BUCKETS: [label: string, maxMinutes: number][] = [
+  ["<5m", 5],
+  ["5-15m", 15],
+  ["15-30m", 30],
+  ["30-60m", 60],
+  ["1-2h", 120],
+  ["2h+", Infinity],
+];
+
+interface CollectedData {
+  allSessions: SessionData[];
+  allMessages: MessageData[]; // Every message, for stats that look back past the range
+  messages: MessageData[]; // Messages in any of the requested ranges
+  projects: ProjectData[];
+  parts: PartData[];
+  collection: CollectionInfo;
+}
+
+export async function calculateStats(range: DateRange, options: StatsOptions = {}): Promise<OpenCodeStats> {
+  const modelsDataPromise = fetchModelsData();
+
+  const collectionStart = performance.now();
+  const [allSessions, allMessages, projects] = await Promise.all([
     collectSessions(),
-    collectMessages(year),
+    collectMessages(),
     collectProjects(),
   ]);
 
-  const sessions = allSessions.filter((s) => new Date(s.time.created).getFullYear() === year);
+  // An all-time range starts with the first session, which is only known now
+  if (range.kind === "all" && allSessions.length > 0) {
+    const firstSessionTimestamp = Math.min(...allSessions.map((s) => s.time.created));
+    range = getAllTimeRange(formatDateKey(new Date(firstSessionTimestamp)));
+  }
+
+  const ranges = options.compareTo ? [range, options.compareTo] : [range];
+  const messages = allMessages.filter((m) => ranges.some((r) => isTimestampInRange(m.time.created, r)));
+  const parts = await collectParts(new Set(messages.map((m) => m.id)));
+  const collection = await finishCollection(performance.now() - collectionStart);
 
-  // Find first session date (ever, not just this year)
+  await modelsDataPromise;
+
+  const data: CollectedData = { allSessions, allMessages, messages, projects, parts, collection };
+  const stats = await buildStats(range, data, options);
+
+  if (options.compareTo) {
+    stats.comparison = await buildStats(options.compareTo, data, options);
+  }
+
+  return stats;
+}
+
+async function buildStats(range: DateRange, data: CollectedData, options: StatsOptions): Promise<OpenCodeStats> {
+  const { allSessions, projects, collection } = data;
+  const messages = data.messages.filter((m) => isTimestampInRange(m.time.created, range));
+  const messageIDs = new Set(messages.map((m) => m.id));
+  const parts = data.parts.filter((p) => messageIDs.has(p.messageID));
+
+  const sessions = allSessions.filter((s) => isTimestampInRange(s.time.created, range));
+
+  // Find first session date (ever, not just in this range)
   // Guard against empty sessions array - Math.min() returns Infinity with no arguments
   let firstSessionDate: Date;
   let daysSinceFirstSession: number;
@@ -28,37 +159,43 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
 
   const totalSessions = sessions.length;
   const totalMessages = messages.length;
-  const totalProjects = projects.length;
 
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
+  let totalReasoningTokens = 0;
+  let totalCacheTokens = 0;
   let zenCost = 0;
   let estimatedCost = 0;
+  let assistantMessages = 0;
   const modelCounts = new Map<string, number>();
   const providerCounts = new Map<string, number>();
   const dailyActivity = new Map<string, number>();
+  const dailyCost = new Map<string, number>();
   const weekdayCounts: [number, number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0, 0];
+  const hourCounts = new Array<number>(24).fill(0);
+  const weekdayHourActivity = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const weekdayHourCost = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
 
   for (const message of messages) {
     if (message.tokens) {
       totalInputTokens += message.tokens.input || 0;
       totalOutputTokens += message.tokens.output || 0;
+      totalReasoningTokens += message.tokens.reasoning || 0;
+      totalCacheTokens += (message.tokens.cache?.read || 0) + (message.tokens.cache?.write || 0);
     }
 
-    if (message.providerID === "opencode" && message.cost) {
-      zenCost += message.cost;
-    }
-
-    if (message.providerID !== "opencode" && message.tokens && message.modelID) {
-      const pricing = getModelPricing(message.modelID);
-      if (pricing) {
-        estimatedCost += calculateMessageCost(message.tokens, pricing);
-      }
+    const cost = getMessageCost(message);
+    if (message.providerID === "opencode") {
+      zenCost += cost;
+    } else {
+      estimatedCost += cost;
     }
 
     if (message.role === "assistant") {
+      assistantMessages++;
       if (message.modelID) {
-        modelCounts.set(message.modelID, (modelCounts.get(message.modelID) || 0) + 1);
+        const family = getModelFamily(message.modelID);
+        modelCounts.set(family, (modelCounts.get(family) || 0) + 1);
       }
       if (message.providerID) {
         providerCounts.set(message.providerID, (providerCounts.get(message.providerID) || 0) + 1);
@@ -66,15 +203,30 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
     }
 
     // Daily activity
-    const date = new Date(message.time.created);
-    const dateKey = formatDateKey(date);
+    const dateKey = formatDateKey(new Date(message.time.created));
     dailyActivity.set(dateKey, (dailyActivity.get(dateKey) || 0) + 1);
+    if (cost > 0) {
+      dailyCost.set(dateKey, (dailyCost.get(dateKey) || 0) + cost);
+    }
 
     // Weekday activity
-    weekdayCounts[date.getDay()]++;
+    const zonedTime = toZonedTime(message.time.created);
+    weekdayCounts[zonedTime.getUTCDay()]++;
+    hourCounts[zonedTime.getUTCHours()]++;
+    weekdayHourActivity[zonedTime.getUTCDay()][zonedTime.getUTCHours()]++;
+    weekdayHourCost[zonedTime.getUTCDay()][zonedTime.getUTCHours()] += cost;
   }
 
-  const totalTokens = totalInputTokens + totalOutputTokens;
+  const totalTokens = totalInputTokens + totalOutputTokens + totalReasoningTokens;
+  const projectNames = options.projectNames ?? "full";
+  const projectStats = calculateProjectStats(messages, sessions, allSessions, projects, projectNames);
+  const totalProjects = projectStats.length;
+  const cache = calculateCacheStats(messages);
+  const agents = calculateAgentStats(messages);
+  const finish = calculateFinishStats(messages);
+  const monthly = calculateMonthlyStats(range, messages, sessions);
+  const yearly = sumMonthsByYear(monthly);
+  const spend = calculateSpendStats(range, dailyCost, options.monthlyBudget);
 
   const topModels: ModelStats[] = Array.from(modelCounts.entries())
     .sort((a, b) => b[1] - a[1])
@@ -97,32 +249,96 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
       percentage: 0,
     }));
 
-  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, year);
+  const modelLatency = calculateLatencyStats(messages, getMessageModelFamily, getModelDisplayName);
+  const providerLatency = calculateLatencyStats(messages, (m) => m.providerID, getProviderDisplayName);
+
+  const { topTools, totalToolCalls, toolErrorRate } = calculateToolStats(parts);
+  const avgToolCallsPerMessage = assistantMessages > 0 ? totalToolCalls / assistantMessages : 0;
+
+  const idleGapMs = (options.idleGapMinutes ?? DEFAULT_IDLE_GAP_MINUTES) * 60 * 1000;
+  const sessionTime = calculateSessionTime(messages, allSessions, idleGapMs);
+
+  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, range);
 
   const mostActiveDay = findMostActiveDay(dailyActivity);
+  const achievements = calculateAchievements(range, data.allMessages, allSessions);
   const weekdayActivity = buildWeekdayActivity(weekdayCounts);
+  const hourActivity = buildHourActivity(hourCounts);
+  const sources = await summarizeSources({ sessions, messages, projects });
 
-  return {
-    year,
+  const stats = {
+    year: range.year,
+    range,
     firstSessionDate,
     daysSinceFirstSession,
     totalSessions,
     totalMessages,
     totalProjects,
+    totalModels: modelCounts.size,
     totalInputTokens,
     totalOutputTokens,
+    totalReasoningTokens,
+    totalCacheTokens,
     totalTokens,
+    cache,
     zenCost,
     estimatedCost,
     topModels,
     topProviders,
+    modelLatency,
+    providerLatency,
+    finish,
+    projects: projectStats,
+    projectNames,
+    agents,
+    topTools,
+    totalToolCalls,
+    toolErrorRate,
+    avgToolCallsPerMessage,
+    sessionTime,
     maxStreak,
     currentStreak,
     maxStreakDays,
+    monthly,
+    yearly,
+    achievements,
     dailyActivity,
+    dailyCost,
+    heatmapMetric: options.heatmapMetric ?? "messages",
+    spend,
     mostActiveDay,
     weekdayActivity,
+    hourActivity,
+    weekdayHourActivity,
+    weekdayHourCost,
+    sources,
+    collection,
+    modelsSource: getModelsSource(),
   };
+
+  return { ...stats, persona: classifyPersona(stats) };
+}
+
+/**
+ * Achievements earned by the end of the range. Once earned they stay earned, so everything up to
+ * then is checked rather than just the range: a streak from 2025 still shows on a 2026 card.
+ */
+function calculateAchievements(range: DateRange, allMessages: MessageData[], allSessions: SessionData[]): Achievement[] {
+  const isUntilRangeEnd = (timestamp: number) => formatDateKey(new Date(timestamp)) <= range.end;
+
+  const messages = allMessages
+    .filter((m) => isUntilRangeEnd(m.time.created))
+    .sort((a, b) => a.time.created - b.time.created);
+  const sessions = allSessions
+    .filter((s) => isUntilRangeEnd(s.time.created))
+    .sort((a, b) => a.time.created - b.time.created);
+  const dailyActivity = new Map<string, number>();
+  for (const message of messages) {
+    const dateKey = formatDateKey(new Date(message.time.created));
+    dailyActivity.set(dateKey, (dailyActivity.get(dateKey) || 0) + 1);
+  }
+
+  return evaluateAchievements({ messages, sessions, dailyActivity });
 }
 
 interface TokenCounts {
@@ -132,12 +348,37 @@ interface TokenCounts {
   cache: { read: number; write: number };
 }
 
+/** Model family that answered a message, so rankings count a model once across providers */
+function getMessageModelFamily(message: MessageData): string | undefined {
+  return message.modelID && getModelFamily(message.modelID);
+}
+
+/** Zen cost as billed, or the cost estimated from models.dev pricing for other providers */
+export function getMessageCost(message: MessageData): number {
+  if (message.providerID === "opencode") {
+    return message.cost || 0;
+  }
+
+  const pricing = message.modelID ? getModelPricing(message.providerID, message.modelID) : undefined;
+  return message.tokens && pricing ? calculateMessageCost(message.tokens, pricing) : 0;
+}
+
+/** Where getMessageCost takes a message's cost from: Zen's bill, a price (see resolveModelPricing) or nowhere */
+export function getMessagePricingSource(message: MessageData): "zen" | ModelPricingSource | "unpriced" {
+  if (message.providerID === "opencode") {
+    return "zen";
+  }
+  return (message.modelID && resolveModelPricing(message.providerID, message.modelID)?.source) || "unpriced";
+}
+
 function calculateMessageCost(tokens: TokenCounts, pricing: ModelCost): number {
   const MILLION = 1_000_000;
 
   let cost = 0;
   cost += (tokens.input * pricing.input) / MILLION;
   cost += (tokens.output * pricing.output) / MILLION;
+  // Reasoning is billed as output unless the model has a separate price for it
+  cost += ((tokens.reasoning || 0) * (pricing.reasoning ?? pricing.output)) / MILLION;
 
   if (pricing.cacheRead && tokens.cache.read) {
     cost += (tokens.cache.read * pricing.cacheRead) / MILLION;
@@ -149,20 +390,496 @@ function calculateMessageCost(tokens: TokenCounts, pricing: ModelCost): number {
   return cost;
 }
 
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+function formatProjectName(path: string, mode: ProjectNameMode, rank: number): string {
+  if (mode === "hidden") {
+    return `Project ${rank}`;
+  }
+  if (mode === "name") {
+    return basename(path) || path;
+  }
+  const home = homedir();
+  return path === home || path.startsWith(home + sep) ? `~${path.slice(home.length)}` : path;
+}
+
+/**
+ * Per-project totals for the range. A project is active when one of its sessions
+ * was created in the range or has messages in it.
+ */
+function calculateProjectStats(
+  messages: MessageData[],
+  sessions: SessionData[],
+  allSessions: SessionData[],
+  projects: ProjectData[],
+  nameMode: ProjectNameMode
+): ProjectStats[] {
+  const sessionsById = new Map(allSessions.map((s) => [s.id, s]));
+  const totals = new Map<string, { path: string; sessionIDs: Set<string>; messages: number; tokens: number; cost: number }>();
+
+  const getTotals = (session: SessionData) => {
+    let projectTotals = totals.get(session.projectID);
+    if (!projectTotals) {
+      // Sessions keep their directory even when the project record is missing
+      const path = projects.find((p) => p.id === session.projectID)?.worktree ?? session.directory;
+      projectTotals = { path, sessionIDs: new Set(), messages: 0, tokens: 0, cost: 0 };
+      totals.set(session.projectID, projectTotals);
+    }
+    projectTotals.sessionIDs.add(session.id);
+    return projectTotals;
+  };
+
+  for (const session of sessions) {
+    getTotals(session);
+  }
+
+  for (const message of messages) {
+    const session = sessionsById.get(message.sessionID);
+    if (!session) continue;
+
+    const projectTotals = getTotals(session);
+    projectTotals.messages++;
+    if (message.tokens) {
+      projectTotals.tokens += (message.tokens.input || 0) + (message.tokens.output || 0) + (message.tokens.reasoning || 0);
+    }
+    projectTotals.cost += getMessageCost(message);
+  }
+
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1].messages - a[1].messages)
+    .map(([id, projectTotals], i) => ({
+      id,
+      name: formatProjectName(projectTotals.path, nameMode, i + 1),
+      sessions: projectTotals.sessionIDs.size,
+      messages: projectTotals.messages,
+      tokens: projectTotals.tokens,
+      cost: projectTotals.cost,
+    }));
+}
+
+/**
+ * Per-agent totals over assistant messages. Older OpenCode versions only store `mode`,
+ * newer ones store the same name as `agent`.
+ */
+function calculateAgentStats(messages: MessageData[]): AgentStats[] {
+  const totals = new Map<string, { messages: number; tokens: number; cost: number }>();
+  let totalMessages = 0;
+  let totalTokens = 0;
+  let totalCost = 0;
+
+  for (const message of messages) {
+    const agent = message.agent || message.mode;
+    if (message.role !== "assistant" || !agent) continue;
+
+    const tokens = message.tokens
+      ? (message.tokens.input || 0) + (message.tokens.output || 0) + (message.tokens.reasoning || 0)
+      : 0;
+    const cost = getMessageCost(message);
+
+    const agentTotals = totals.get(agent) ?? { messages: 0, tokens: 0, cost: 0 };
+    agentTotals.messages++;
+    agentTotals.tokens += tokens;
+    agentTotals.cost += cost;
+    totals.set(agent, agentTotals);
+
+    totalMessages++;
+    totalTokens += tokens;
+    totalCost += cost;
+  }
+
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1].messages - a[1].messages)
+    .map(([id, agentTotals]) => ({
+      id,
+      name: BUILT_IN_AGENTS.get(id) ?? id,
+      builtIn: BUILT_IN_AGENTS.has(id),
+      messages: agentTotals.messages,
+      tokens: agentTotals.tokens,
+      cost: agentTotals.cost,
+      messageShare: totalMessages > 0 ? agentTotals.messages / totalMessages : 0,
+      tokenShare: totalTokens > 0 ? agentTotals.tokens / totalTokens : 0,
+      costShare: totalCost > 0 ? agentTotals.cost / totalCost : 0,
+    }));
+}
+
+function calculateMonthlyStats(range: DateRange, messages: MessageData[], sessions: SessionData[]): MonthlyStats[] {
+  const months = getMonthsInRange(range).map(({ key, label }) => ({
+    key,
+    label,
+    totals: { messages: 0, sessions: 0, tokens: 0, cost: 0 },
+  }));
+  const totals = new Map(months.map((month) => [month.key, month.totals]));
+  const getMonthTotals = (timestamp: number) => totals.get(formatDateKey(new Date(timestamp)).slice(0, 7));
+
+  for (const session of sessions) {
+    const monthTotals = getMonthTotals(session.time.created);
+    if (monthTotals) monthTotals.sessions++;
+  }
+
+  for (const message of messages) {
+    const monthTotals = getMonthTotals(message.time.created);
+    if (!monthTotals) continue;
+
+    monthTotals.messages++;
+    if (message.tokens) {
+      monthTotals.tokens += (message.tokens.input || 0) + (message.tokens.output || 0) + (message.tokens.reasoning || 0);
+    }
+    monthTotals.cost += getMessageCost(message);
+  }
+
+  const growth = (current: number, previous: number | undefined) =>
+    previous ? (current - previous) / previous : null;
+
+  let previous: MonthlyTotals | undefined;
+  return months.map(({ key, label, totals: current }) => {
+    const month: MonthlyStats = {
+      month: key,
+      label,
+      ...current,
+      growth: {
+        messages: growth(current.messages, previous?.messages),
+        sessions: growth(current.sessions, previous?.sessions),
+        tokens: growth(current.tokens, previous?.tokens),
+        cost: growth(current.cost, previous?.cost),
+      },
+    };
+    previous = current;
+    return month;
+  });
+}
+
+function sumMonthsByYear(monthly: MonthlyStats[]): YearlyStats[] {
+  const yearly: YearlyStats[] = [];
+  for (const month of monthly) {
+    const year = Number(month.month.slice(0, 4));
+    let totals = yearly.at(-1);
+    if (totals?.year !== year) {
+      totals = { year, messages: 0, sessions: 0, tokens: 0, cost: 0 };
+      yearly.push(totals);
+    }
+    totals.messages += month.messages;
+    totals.sessions += month.sessions;
+    totals.tokens += month.tokens;
+    totals.cost += month.cost;
+  }
+  return yearly;
+}
+
+/**
+ * Spend so far this month and year, and where it ends up if the last 30 days' daily average
+ * keeps up. Only ranges that include today can be forecast; a month or year the range
+ * doesn't fully cover up to today has no to-date total.
+ */
+function calculateSpendStats(
+  range: DateRange,
+  dailyCost: Map<string, number>,
+  budget: number | undefined
+): SpendStats | null {
+  const today = formatDateKey(new Date());
+  if (!isDateKeyInRange(today, range)) return null;
+
+  const sumSince = (start: string) =>
+    Array.from(dailyCost.entries()).reduce((sum, [day, cost]) => (day >= start && day <= today ? sum + cost : sum), 0);
+  const daysBetween = (start: string, end: string) =>
+    Math.round((parseDateKey(end).getTime() - parseDateKey(start).getTime()) / (24 * 60 * 60 * 1000));
+
+  const trailingStart = addDays(today, 1 - SPEND_RUN_RATE_DAYS);
+  const runRateStart = range.start > trailingStart ? range.start : trailingStart;
+  const dailyAverage = sumSince(runRateStart) / (daysBetween(runRateStart, today) + 1);
+
+  const project = (period: DateRange) => {
+    if (range.start > period.start) return { toDate: null, forecast: null };
+    const spent = sumSince(period.start);
+    return { toDate: spent, forecast: spent + dailyAverage * daysBetween(today, period.end) };
+  };
+
+  const todayDate = parseDateKey(today);
+  const month = project(getMonthRange(todayDate.getUTCFullYear(), todayDate.getUTCMonth()));
+  const year = project(getYearRange(todayDate.getUTCFullYear()));
+
+  return {
+    asOf: today,
+    dailyAverage,
+    monthToDate: month.toDate,
+    monthForecast: month.forecast,
+    yearToDate: year.toDate,
+    yearForecast: year.forecast,
+    budget: budget ?? null,
+    overBudget: budget !== undefined && month.forecast !== null && month.forecast > budget,
+  };
+}
+
+/**
+ * Why an assistant turn ended. Interrupted, truncated and failed turns are told apart by their
+ * error, as OpenCode records hitting the output limit as an error too.
+ */
+export function getFinishReason(message: MessageData): string {
+  switch (message.error?.name) {
+    case undefined:
+      return message.finish || "unknown";
+    case "MessageAbortedError":
+      return "aborted";
+    case "MessageOutputLengthError":
+      return "length";
+    default:
+      return "error";
+  }
+}
+
+function buildFinishReasonStats(
+  messages: MessageData[],
+  getKey: (message: MessageData) => string | undefined,
+  getName: (id: string) => string
+): FinishReasonStats[] {
+  const reasonsByKey = new Map<string, Record<string, number>>();
+
+  for (const message of messages) {
+    const key = getKey(message);
+    if (!key) continue;
+
+    const reasons = reasonsByKey.get(key) ?? {};
+    const reason = getFinishReason(message);
+    reasons[reason] = (reasons[reason] || 0) + 1;
+    reasonsByKey.set(key, reasons);
+  }
+
+  return Array.from(reasonsByKey.entries())
+    .map(([id, reasons]) => {
+      const total = Object.values(reasons).reduce((sum, n) => sum + n, 0);
+      return { id, name: getName(id), total, reasons, truncationRate: (reasons["length"] || 0) / total };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+function calculateFinishStats(messages: MessageData[]): FinishStats {
+  const assistantMessages = messages.filter((m) => m.role === "assistant");
+
+  const reasons: Record<string, number> = {};
+  for (const message of assistantMessages) {
+    const reason = getFinishReason(message);
+    reasons[reason] = (reasons[reason] || 0) + 1;
+  }
+
+  const total = assistantMessages.length;
+  const truncated = reasons["length"] || 0;
+
+  return {
+    total,
+    reasons,
+    aborted: reasons.aborted || 0,
+    errors: reasons.error || 0,
+    truncated,
+    truncationRate: total > 0 ? truncated / total : 0,
+    byModel: buildFinishReasonStats(assistantMessages, getMessageModelFamily, getModelDisplayName),
+    byProvider: buildFinishReasonStats(assistantMessages, (m) => m.providerID, getProviderDisplayName),
+  };
+}
+
+function getCacheHitRate(inputTokens: number, cacheReadTokens: number): number {
+  const total = inputTokens + cacheReadTokens;
+  return total > 0 ? cacheReadTokens / total : 0;
+}
+
+function calculateCacheStats(messages: MessageData[]): CacheStats {
+  const MILLION = 1_000_000;
+
+  let inputTokens = 0;
+  let readTokens = 0;
+  let writeTokens = 0;
+  let savings = 0;
+  const modelTokens = new Map<string, { input: number; cacheRead: number }>();
+
+  for (const message of messages) {
+    if (!message.tokens) continue;
+
+    const input = message.tokens.input || 0;
+    const cacheRead = message.tokens.cache?.read || 0;
+    inputTokens += input;
+    readTokens += cacheRead;
+    writeTokens += message.tokens.cache?.write || 0;
+
+    if (message.modelID) {
+      const family = getModelFamily(message.modelID);
+      const totals = modelTokens.get(family) ?? { input: 0, cacheRead: 0 };
+      totals.input += input;
+      totals.cacheRead += cacheRead;
+      modelTokens.set(family, totals);
+
+      // What the cached tokens would have cost as regular input
+      const pricing = getModelPricing(message.providerID, message.modelID);
+      if (pricing?.cacheRead !== undefined && cacheRead > 0) {
+        savings += (cacheRead * (pricing.input - pricing.cacheRead)) / MILLION;
+      }
+    }
+  }
+
+  const byModel = Array.from(modelTokens.entries())
+    .filter(([, totals]) => totals.cacheRead > 0)
+    .sort((a, b) => b[1].cacheRead - a[1].cacheRead)
+    .map(([id, totals]) => ({
+      id,
+      name: getModelDisplayName(id),
+      inputTokens: totals.input,
+      cacheReadTokens: totals.cacheRead,
+      hitRate: getCacheHitRate(totals.input, totals.cacheRead),
+    }));
+
+  return {
+    readTokens,
+    writeTokens,
+    hitRate: getCacheHitRate(inputTokens, readTokens),
+    savings,
+    byModel,
+  };
+}
+
+/** Nearest-rank percentile of an ascending array */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Generation latency (created -> completed) of assistant messages, grouped by `getKey` */
+function calculateLatencyStats(
+  messages: MessageData[],
+  getKey: (message: MessageData) => string | undefined,
+  getName: (id: string) => string
+): LatencyStats[] {
+  const groups = new Map<string, { latencies: number[]; outputTokens: number; tokenLatencyMs: number }>();
+
+  for (const message of messages) {
+    const key = getKey(message);
+    const { created, completed } = message.time;
+    if (message.role !== "assistant" || !key || !completed || completed < created) continue;
+
+    const group = groups.get(key) ?? { latencies: [], outputTokens: 0, tokenLatencyMs: 0 };
+    const latency = completed - created;
+    group.latencies.push(latency);
+
+    // Throughput only counts messages that report output tokens
+    if (message.tokens?.output) {
+      group.outputTokens += message.tokens.output;
+      group.tokenLatencyMs += latency;
+    }
+
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([id, { latencies, outputTokens, tokenLatencyMs }]) => {
+      latencies.sort((a, b) => a - b);
+      return {
+        id,
+        name: getName(id),
+        count: latencies.length,
+        p50Ms: percentile(latencies, 50),
+        p95Ms: percentile(latencies, 95),
+        maxMs: latencies[latencies.length - 1],
+        tokensPerSecond: tokenLatencyMs > 0 ? outputTokens / (tokenLatencyMs / 1000) : null,
+      };
+    })
+    .sort((a, b) => a.p50Ms - b.p50Ms);
+}
+
+function calculateToolStats(parts: PartData[]): { topTools: ToolStats[]; totalToolCalls: number; toolErrorRate: number } {
+  const toolCounts = new Map<string, number>();
+  let totalToolCalls = 0;
+  let failedToolCalls = 0;
+
+  for (const part of parts) {
+    if (part.type !== "tool" || !part.tool) continue;
+
+    totalToolCalls++;
+    toolCounts.set(part.tool, (toolCounts.get(part.tool) || 0) + 1);
+
+    if (part.state?.status === "error") {
+      failedToolCalls++;
+    }
+  }
+
+  const topTools: ToolStats[] = Array.from(toolCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([name, count]) => ({
+      name,
+      count,
+      percentage: (count / totalToolCalls) * 100,
+    }));
+
+  return {
+    topTools,
+    totalToolCalls,
+    toolErrorRate: totalToolCalls > 0 ? failedToolCalls / totalToolCalls : 0,
+  };
+}
+
+/**
+ * Estimate active time per session: message timestamps are split wherever the gap between
+ * them exceeds `idleGapMs`, and only the spans between those splits are counted
+ */
+function calculateSessionTime(messages: MessageData[], allSessions: SessionData[], idleGapMs: number): SessionTimeStats {
+  const timestampsBySession = new Map<string, number[]>();
+  for (const message of messages) {
+    const timestamps = timestampsBySession.get(message.sessionID) ?? [];
+    timestamps.push(message.time.created);
+    if (message.time.completed) {
+      timestamps.push(message.time.completed);
+    }
+    timestampsBySession.set(message.sessionID, timestamps);
+  }
+
+  const activeTimes: { id: string; activeMs: number }[] = [];
+  for (const [id, timestamps] of timestampsBySession) {
+    timestamps.sort((a, b) => a - b);
+
+    let activeMs = 0;
+    for (let i = 1; i < timestamps.length; i++) {
+      const gap = timestamps[i] - timestamps[i - 1];
+      if (gap <= idleGapMs) {
+        activeMs += gap;
+      }
+    }
+    activeTimes.push({ id, activeMs });
+  }
+
+  if (activeTimes.length === 0) {
+    return {
+      totalActiveMs: 0,
+      longestSession: null,
+      medianSessionMs: 0,
+      histogram: SESSION_LENGTH_BUCKETS.map(([label]) => ({ label, count: 0 })),
+    };
+  }
+
+  activeTimes.sort((a, b) => a.activeMs - b.activeMs);
+
+  const middle = Math.floor(activeTimes.length / 2);
+  const medianSessionMs =
+    activeTimes.length % 2 === 1
+      ? activeTimes[middle].activeMs
+      : (activeTimes[middle - 1].activeMs + activeTimes[middle].activeMs) / 2;
+
+  const histogram = SESSION_LENGTH_BUCKETS.map(([label]) => ({ label, count: 0 }));
+  for (const { activeMs } of activeTimes) {
+    const minutes = activeMs / (60 * 1000);
+    histogram[SESSION_LENGTH_BUCKETS.findIndex(([, maxMinutes]) => minutes < maxMinutes)].count++;
+  }
+
+  const longest = activeTimes[activeTimes.length - 1];
+  const longestTitle = allSessions.find((s) => s.id === longest.id)?.title;
+
+  return {
+    totalActiveMs: activeTimes.reduce((sum, session) => sum + session.activeMs, 0),
+    longestSession: { id: longest.id, title: longestTitle || "Untitled", activeMs: longest.activeMs },
+    medianSessionMs,
+    histogram,
+  };
 }
 
-function calculateStreaks(
+export function calculateStreaks(
   dailyActivity: Map<string, number>,
-  year: number
+  range: DateRange
 ): { maxStreak: number; currentStreak: number; maxStreakDays: Set<string> } {
   // Get all active dates sorted
   const activeDates = Array.from(dailyActivity.keys())
-    .filter((date) => date.startsWith(String(year)))
+    .filter((date) => isDateKeyInRange(date, range))
     .sort();
 
   if (activeDates.length === 0) {
@@ -176,14 +893,7 @@ function calculateStreaks(
   let maxStreakEnd = 0;
 
   for (let i = 1; i < activeDates.length; i++) {
-    const prevDate = new Date(activeDates[i - 1]);
-    const currDate = new Date(activeDates[i]);
-
-    // Calculate difference in days
-    const diffTime = currDate.getTime() - prevDate.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 1) {
+    if (addDays(activeDates[i - 1], 1) === activeDates[i]) {
       tempStreak++;
       if (tempStreak > maxStreak) {
         maxStreak = tempStreak;
@@ -204,25 +914,25 @@ function calculateStreaks(
 
   // Calculate current streak (from today or yesterday backwards)
   const today = formatDateKey(new Date());
-  const yesterday = formatDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  const yesterday = addDays(today, -1);
 
   const currentStreak = dailyActivity.has(today)
-    ? countStreakBackwards(dailyActivity, new Date())
+    ? countStreakBackwards(dailyActivity, today)
     : dailyActivity.has(yesterday)
-    ? countStreakBackwards(dailyActivity, new Date(Date.now() - 24 * 60 * 60 * 1000))
+    ? countStreakBackwards(dailyActivity, yesterday)
     : 0;
 
   return { maxStreak, currentStreak, maxStreakDays };
 }
 
 /** Count consecutive days with activity going backwards from startDate (inclusive) */
-function countStreakBackwards(dailyActivity: Map<string, number>, startDate: Date): number {
+function countStreakBackwards(dailyActivity: Map<string, number>, startDate: string): number {
   let streak = 1;
-  let checkDate = new Date(startDate);
+  let checkDate = startDate;
 
   while (true) {
-    checkDate = new Date(checkDate.getTime() - 24 * 60 * 60 * 1000);
-    if (dailyActivity.has(formatDateKey(checkDate))) {
+    checkDate = addDays(checkDate, -1);
+    if (dailyActivity.has(checkDate)) {
       streak++;
     } else {
       break;
@@ -252,10 +962,9 @@ function findMostActiveDay(dailyActivity: Map<string, number>): { date: string;
   }
 
   // Parse date string (YYYY-MM-DD) and format as "Mon D"
-  const [year, month, day] = maxDate.split("-").map(Number);
-  const dateObj = new Date(year, month - 1, day);
+  const dateObj = parseDateKey(maxDate);
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  const formattedDate = `${monthNames[dateObj.getMonth()]} ${dateObj.getDate()}`;
+  const formattedDate = `${monthNames[dateObj.getUTCMonth()]} ${dateObj.getUTCDate()}`;
 
   return {
     date: maxDate,
@@ -283,3 +992,37 @@ function buildWeekdayActivity(counts: [number, number, number, number, number, n
     maxCount,
   };
 }
+
+// Share of messages sent late at night (10pm-5am) or early in the morning (5am-9am) that earns a chronotype
+const CHRONOTYPE_THRESHOLD = 0.2;
+
+function buildHourActivity(counts: number[]): HourActivity {
+  let peakHour = 0;
+  let maxCount = 0;
+  for (let i = 0; i < 24; i++) {
+    if (counts[i] > maxCount) {
+      maxCount = counts[i];
+      peakHour = i;
+    }
+  }
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const sumHours = (hours: number[]) => hours.reduce((sum, hour) => sum + counts[hour], 0);
+  const nightShare = total > 0 ? sumHours([22, 23, 0, 1, 2, 3, 4]) / total : 0;
+  const morningShare = total > 0 ? sumHours([5, 6, 7, 8]) / total : 0;
+
+  let chronotype: HourActivity["chronotype"] = "daytime";
+  if (nightShare >= CHRONOTYPE_THRESHOLD && nightShare >= morningShare) {
+    chronotype = "night-owl";
+  } else if (morningShare >= CHRONOTYPE_THRESHOLD) {
+    chronotype = "early-bird";
+  }
+
+  return {
+    counts,
+    peakHour,
+    peakHourLabel: formatHour(peakHour),
+    maxCount,
+    chronotype,
+  };
+}
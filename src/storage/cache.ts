@@ -0,0 +1,108 @@
+// On-disk index of parsed storage files, so reruns only re-read new or changed files
+
+import { mkdir, rename } from "node:fs/promises";
+import type { Stats } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { xdgCache } from "xdg-basedir";
+
+export const CACHE_DIR = join(xdgCache!, "oc-wrapped");
+
+const INDEX_PATH = join(CACHE_DIR, "index.json");
+
+// Bump when the shape of cached records changes
+const INDEX_VERSION = 2;
+
+interface IndexEntry {
+  mtimeMs: number;
+  size: number;
+  /** Parsed record, or null if the file could not be parsed */
+  data: unknown;
+}
+
+interface IndexFile {
+  version: number;
+  files: Record<string, IndexEntry>;
+}
+
+export interface FileCache {
+  /** Cached record for the file, or undefined if it is new or changed since it was indexed */
+  get(path: string, stats: Stats): unknown | undefined;
+  set(path: string, stats: Stats, data: unknown): void;
+  /** Record what a directory listed, so entries for files (or subdirectories) deleted from it can be pruned */
+  markDirectoryListed(path: string, names: string[]): void;
+  save(): Promise<void>;
+  hits: number;
+  misses: number;
+}
+
+async function readIndex(): Promise<Record<string, IndexEntry>> {
+  try {
+    const index = (await Bun.file(INDEX_PATH).json()) as IndexFile;
+    if (index.version !== INDEX_VERSION || !index.files || typeof index.files !== "object") {
+      return {};
+    }
+    return index.files;
+  } catch {
+    // Missing or corrupt index, start fresh
+    return {};
+  }
+}
+
+/**
+ * Load the file index from $XDG_CACHE_HOME/oc-wrapped
+ *
+ * @param rebuild - Ignore existing entries and re-read every file
+ */
+export async function loadFileCache(rebuild = false): Promise<FileCache> {
+  const entries = rebuild ? {} : await readIndex();
+  const seen = new Set<string>();
+  const listedDirectories = new Map<string, Set<string>>();
+
+  const cache: FileCache = {
+    hits: 0,
+    misses: 0,
+
+    get(path, stats) {
+      seen.add(path);
+      const entry = entries[path];
+      if (entry && entry.mtimeMs === stats.mtimeMs && entry.size === stats.size) {
+        cache.hits++;
+        return entry.data;
+      }
+      cache.misses++;
+      return undefined;
+    },
+
+    set(path, stats, data) {
+      seen.add(path);
+      entries[path] = { mtimeMs: stats.mtimeMs, size: stats.size, data };
+    },
+
+    markDirectoryListed(path, names) {
+      listedDirectories.set(path, new Set(names));
+    },
+
+    async save() {
+      // Drop entries for files that have disappeared from directories we listed this run, or whose
+      // directory has disappeared from its listed parent; entries in directories that still exist but
+      // were not visited (e.g. other years' parts) are kept
+      for (const path of Object.keys(entries)) {
+        if (seen.has(path)) continue;
+        const dir = dirname(path);
+        const parentListing = listedDirectories.get(dirname(dir));
+        if (listedDirectories.has(dir) || (parentListing && !parentListing.has(basename(dir)))) {
+          delete entries[path];
+        }
+      }
+
+      const index: IndexFile = { version: INDEX_VERSION, files: entries };
+      const tempPath = `${INDEX_PATH}.${process.pid}.tmp`;
+
+      await mkdir(CACHE_DIR, { recursive: true });
+      await Bun.write(tempPath, JSON.stringify(index));
+      await rename(tempPath, INDEX_PATH);
+    },
+  };
+
+  return cache;
+}
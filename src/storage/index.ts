@@ -0,0 +1,33 @@
+import { join } from "node:path";
+import { xdgData } from "xdg-basedir";
+import type { StorageReader, StorageReaderFactory, StorageReaderOptions, RawRecord, RecordKind } from "./types";
+import { createSqliteStorageReader } from "./sqlite";
+import { createJsonStorageReader } from "./json";
+
+export type { StorageReader, StorageReaderOptions, RawRecord, RecordKind };
+export { loadFileCache, type FileCache } from "./cache";
+
+export const DEFAULT_DATA_PATH = join(xdgData!, "opencode");
+
+// Newer layouts first: OpenCode keeps the old JSON tree around after migrating to SQLite
+const factories: StorageReaderFactory[] = [createSqliteStorageReader, createJsonStorageReader];
+
+/**
+ * Detect which storage layout is present in an OpenCode data directory
+ *
+ * @param dataPath - OpenCode data directory (usually $XDG_DATA_HOME/opencode)
+ * @param options - Options passed through to the reader
+ * @returns Reader for the detected layout, or null if no known layout is found
+ */
+export async function getStorageReader(
+  dataPath: string = DEFAULT_DATA_PATH,
+  options: StorageReaderOptions = {}
+): Promise<StorageReader | null> {
+  for (const factory of factories) {
+    const reader = factory(dataPath, options);
+    if (await reader.isAvailable()) {
+      return reader;
+    }
+  }
+  return null;
+}
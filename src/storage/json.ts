@@ -0,0 +1,246 @@
+// JSON file tree layout: storage/{session,message,part,project}/**/*.json
+
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { SessionData, MessageData, PartData, ProjectData } from "../types";
+import type { FileCache } from "./cache";
+import type { RawRecord, RecordKind, StorageReader, StorageReaderOptions } from "./types";
+
+interface ReadOptions<T> {
+  cache?: FileCache;
+  /** Only read these subdirectories */
+  include?: Set<string>;
+  /** Keep only the fields we use, so large records stay small in memory and in the cache */
+  pick?: (raw: unknown) => T;
+}
+
+/**
+ * Read every JSON file one directory level below `rootPath`
+ * (e.g. `session/<project>/*.json`), skipping unreadable files
+ */
+async function readNestedJsonFiles<T>(rootPath: string, options: ReadOptions<T> = {}): Promise<T[]> {
+  const subDirs = await readdir(rootPath);
+  options.cache?.markDirectoryListed(rootPath, subDirs);
+  const { include } = options;
+
+  const results = await Promise.all(
+    subDirs
+      .filter((subDir) => !include || include.has(subDir))
+      .map(async (subDir) => {
+        try {
+          return await readJsonFiles<T>(join(rootPath, subDir), options);
+        } catch {
+          return [];
+        }
+      })
+  );
+
+  return results.flat();
+}
+
+/** Read every JSON file directly inside `dirPath`, skipping unreadable files */
+async function readJsonFiles<T>(dirPath: string, options: ReadOptions<T> = {}): Promise<T[]> {
+  const files = await readdir(dirPath);
+  options.cache?.markDirectoryListed(dirPath, files);
+
+  const results: (T | null)[] = await Promise.all(
+    files.filter((f) => f.endsWith(".json")).map((file) => readJsonFile<T>(join(dirPath, file), options))
+  );
+
+  return results.filter((r): r is T => r !== null);
+}
+
+async function readJsonFile<T>(filePath: string, { cache, pick }: ReadOptions<T>): Promise<T | null> {
+  const parse = async (): Promise<T | null> => {
+    try {
+      const raw = await Bun.file(filePath).json();
+      return pick ? pick(raw) : (raw as T);
+    } catch {
+      return null; // Skip invalid JSON files
+    }
+  };
+
+  if (!cache) {
+    return parse();
+  }
+
+  let stats;
+  try {
+    stats = await stat(filePath);
+  } catch {
+    return null;
+  }
+
+  const cached = cache.get(filePath, stats);
+  if (cached !== undefined) {
+    return cached as T | null;
+  }
+
+  const data = await parse();
+  cache.set(filePath, stats, data);
+  return data;
+}
+
+/** Read every JSON file in `dirPath` (and one level below when `nested`), keeping parse errors */
+async function scanJsonFiles(kind: RecordKind, dirPath: string, nested: boolean): Promise<RawRecord[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(dirPath);
+  } catch {
+    return [];
+  }
+
+  if (nested) {
+    const results = await Promise.all(entries.map((entry) => scanJsonFiles(kind, join(dirPath, entry), false)));
+    return results.flat();
+  }
+
+  return Promise.all(
+    entries
+      .filter((f) => f.endsWith(".json"))
+      .map(async (file): Promise<RawRecord> => {
+        const location = join(dirPath, file);
+        try {
+          return { kind, location, data: JSON.parse(await Bun.file(location).text()) };
+        } catch (error) {
+          return { kind, location, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+  );
+}
+
+/** Keep the fields stats read; summaries can also carry file diffs */
+function pickSession(raw: unknown): SessionData {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Session is not a JSON object"); // Skipped like invalid JSON
+  }
+  const data = raw as Partial<SessionData>;
+  return {
+    id: data.id ?? "",
+    version: data.version ?? "",
+    projectID: data.projectID ?? "",
+    directory: data.directory ?? "",
+    title: data.title ?? "",
+    time: {
+      created: data.time?.created ?? 0,
+      updated: data.time?.updated ?? 0,
+    },
+    summary: data.summary && {
+      additions: data.summary.additions,
+      deletions: data.summary.deletions,
+      files: data.summary.files,
+    },
+  };
+}
+
+/** Drop user message summaries, whose diffs hold the full contents of every edited file */
+function pickMessage(raw: unknown): MessageData {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Message is not a JSON object"); // Skipped like invalid JSON
+  }
+  const data = raw as Partial<MessageData>;
+  return {
+    id: data.id ?? "",
+    sessionID: data.sessionID ?? "",
+    role: data.role ?? "user",
+    time: {
+      created: data.time?.created ?? 0,
+      completed: data.time?.completed,
+    },
+    parentID: data.parentID,
+    modelID: data.modelID,
+    providerID: data.providerID,
+    mode: data.mode,
+    agent: data.agent,
+    cost: data.cost,
+    tokens: data.tokens,
+    finish: data.finish,
+    error: data.error && { name: data.error.name },
+  };
+}
+
+/** Drop tool inputs/outputs and text bodies, which can be very large */
+function pickPart(raw: unknown): PartData {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Part is not a JSON object"); // Skipped like invalid JSON
+  }
+  const data = raw as Partial<PartData>;
+  return {
+    id: data.id ?? "",
+    sessionID: data.sessionID ?? "",
+    messageID: data.messageID ?? "",
+    type: data.type ?? "",
+    tool: data.tool,
+    callID: data.callID,
+    state: data.state && {
+      status: data.state.status,
+      time: data.state.time,
+    },
+  };
+}
+
+export function createJsonStorageReader(dataPath: string, { cache }: StorageReaderOptions = {}): StorageReader {
+  const storagePath = join(dataPath, "storage");
+
+  return {
+    name: "json",
+    dataPath,
+
+    async isAvailable(): Promise<boolean> {
+      try {
+        await readdir(join(storagePath, "session"));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async readSessions(): Promise<SessionData[]> {
+      try {
+        return await readNestedJsonFiles<SessionData>(join(storagePath, "session"), { cache, pick: pickSession });
+      } catch (error) {
+        throw new Error(`Failed to read sessions: ${error}`);
+      }
+    },
+
+    async readMessages(): Promise<MessageData[]> {
+      try {
+        return await readNestedJsonFiles<MessageData>(join(storagePath, "message"), { cache, pick: pickMessage });
+      } catch (error) {
+        throw new Error(`Failed to read messages: ${error}`);
+      }
+    },
+
+    async readProjects(): Promise<ProjectData[]> {
+      try {
+        return await readJsonFiles<ProjectData>(join(storagePath, "project"), { cache });
+      } catch {
+        // Projects directory might not exist
+        return [];
+      }
+    },
+
+    async readParts(messageIDs?: Set<string>): Promise<PartData[]> {
+      try {
+        // Parts are grouped by message, so only the requested message directories are opened
+        return await readNestedJsonFiles<PartData>(join(storagePath, "part"), {
+          cache,
+          include: messageIDs,
+          pick: pickPart,
+        });
+      } catch {
+        // Older storage versions have no part directory
+        return [];
+      }
+    },
+
+    async scanRecords(): Promise<RawRecord[]> {
+      const results = await Promise.all([
+        scanJsonFiles("session", join(storagePath, "session"), true),
+        scanJsonFiles("message", join(storagePath, "message"), true),
+        scanJsonFiles("project", join(storagePath, "project"), false),
+      ]);
+      return results.flat();
+    },
+  };
+}
@@ -0,0 +1,223 @@
+// SQLite layout: opencode.db with session, message and project tables
+
+import { Database } from "bun:sqlite";
+import { join } from "node:path";
+import type { SessionData, MessageData, PartData, ProjectData } from "../types";
+import type { RawRecord, RecordKind, StorageReader } from "./types";
+
+const DATABASE_FILENAME = "opencode.db";
+
+type Row = Record<string, unknown>;
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/** Parse the JSON `data` column that holds the record body, throwing on malformed JSON */
+function parseDataStrict(value: unknown): Row {
+  if (typeof value !== "string") return {};
+  const data = JSON.parse(value);
+  return data && typeof data === "object" ? data : {};
+}
+
+function parseData(value: unknown): Row {
+  try {
+    return parseDataStrict(value);
+  } catch {
+    return {};
+  }
+}
+
+/** Map a row to the record shape without filling in defaults, so missing columns stay visible */
+function toRawRecord(kind: RecordKind, row: Row): unknown {
+  const value = (v: unknown) => (v === null ? undefined : v);
+
+  switch (kind) {
+    case "session":
+      return {
+        id: value(row.id),
+        version: value(row.version),
+        projectID: value(row.project_id),
+        directory: value(row.directory),
+        title: value(row.title),
+        time: { created: value(row.time_created), updated: value(row.time_updated) },
+      };
+    case "project":
+      return {
+        id: value(row.id),
+        worktree: value(row.worktree),
+        vcs: value(row.vcs),
+        time: { created: value(row.time_created), updated: value(row.time_updated) },
+      };
+    default:
+      return {
+        ...parseDataStrict(row.data),
+        id: value(row.id),
+        sessionID: value(row.session_id),
+      };
+  }
+}
+
+function toSession(row: Row): SessionData {
+  const data = parseData(row.data);
+  const session: SessionData = {
+    ...(data as Partial<SessionData>),
+    id: asString(row.id),
+    version: asString(row.version ?? data.version),
+    projectID: asString(row.project_id ?? data.projectID),
+    directory: asString(row.directory ?? data.directory),
+    title: asString(row.title ?? data.title),
+    time: {
+      created: asNumber(row.time_created) ?? 0,
+      updated: asNumber(row.time_updated) ?? 0,
+    },
+  };
+
+  if (typeof row.summary_files === "number") {
+    session.summary = {
+      additions: asNumber(row.summary_additions) ?? 0,
+      deletions: asNumber(row.summary_deletions) ?? 0,
+      files: row.summary_files,
+    };
+  }
+
+  return session;
+}
+
+function toMessage(row: Row): MessageData {
+  const data = parseData(row.data) as Partial<MessageData>;
+  return {
+    ...data,
+    id: asString(row.id),
+    sessionID: asString(row.session_id),
+    role: data.role ?? "user",
+    time: {
+      ...data.time,
+      created: data.time?.created ?? asNumber(row.time_created) ?? 0,
+    },
+  };
+}
+
+function toPart(row: Row): PartData {
+  const data = parseData(row.data) as Partial<PartData>;
+  // Tool inputs/outputs and text bodies are left out, they can be very large
+  return {
+    id: asString(row.id),
+    messageID: asString(row.message_id),
+    sessionID: asString(row.session_id),
+    type: data.type ?? "",
+    tool: data.tool,
+    callID: data.callID,
+    state: data.state && {
+      status: data.state.status,
+      time: data.state.time,
+    },
+  };
+}
+
+function toProject(row: Row): ProjectData {
+  return {
+    id: asString(row.id),
+    worktree: asString(row.worktree),
+    vcsDir: asString(row.vcs_dir),
+    vcs: asString(row.vcs),
+    time: {
+      created: asNumber(row.time_created) ?? 0,
+      updated: asNumber(row.time_updated) ?? 0,
+      initialized: asNumber(row.time_initialized),
+    },
+  };
+}
+
+export function createSqliteStorageReader(dataPath: string): StorageReader {
+  const databasePath = join(dataPath, DATABASE_FILENAME);
+
+  function query<T>(table: string, map: (row: Row) => T): T[] {
+    const db = new Database(databasePath, { readonly: true });
+    try {
+      return db.query<Row, []>(`SELECT * FROM ${table}`).all().map(map);
+    } finally {
+      db.close();
+    }
+  }
+
+  return {
+    name: "sqlite",
+    dataPath,
+
+    async isAvailable(): Promise<boolean> {
+      if (!(await Bun.file(databasePath).exists())) return false;
+
+      try {
+        const db = new Database(databasePath, { readonly: true });
+        try {
+          const table = db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'session'").get();
+          return table !== null;
+        } finally {
+          db.close();
+        }
+      } catch {
+        return false;
+      }
+    },
+
+    async readSessions(): Promise<SessionData[]> {
+      try {
+        return query("session", toSession);
+      } catch (error) {
+        throw new Error(`Failed to read sessions: ${error}`);
+      }
+    },
+
+    async readMessages(): Promise<MessageData[]> {
+      try {
+        return query("message", toMessage);
+      } catch (error) {
+        throw new Error(`Failed to read messages: ${error}`);
+      }
+    },
+
+    async readProjects(): Promise<ProjectData[]> {
+      try {
+        return query("project", toProject);
+      } catch {
+        // Older databases may not have a project table
+        return [];
+      }
+    },
+
+    async scanRecords(): Promise<RawRecord[]> {
+      const kinds: RecordKind[] = ["session", "message", "project"];
+      return kinds.flatMap((kind) => {
+        let rows: Row[];
+        try {
+          rows = query(kind, (row) => row);
+        } catch {
+          return [];
+        }
+
+        return rows.map((row): RawRecord => {
+          const location = `${databasePath}#${kind}/${row.id}`;
+          try {
+            return { kind, location, data: toRawRecord(kind, row) };
+          } catch (error) {
+            return { kind, location, error: error instanceof Error ? error.message : String(error) };
+          }
+        });
+      });
+    },
+
+    async readParts(messageIDs?: Set<string>): Promise<PartData[]> {
+      try {
+        const parts = query("part", toPart);
+        return messageIDs ? parts.filter((part) => messageIDs.has(part.messageID)) : parts;
+      } catch {
+        return [];
+      }
+    },
+  };
+}
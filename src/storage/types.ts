@@ -0,0 +1,36 @@
+import type { SessionData, MessageData, PartData, ProjectData } from "../types";
+import type { FileCache } from "./cache";
+
+export type RecordKind = "session" | "message" | "part" | "project";
+
+/** A stored record as found on disk, before any shape checks */
+export interface RawRecord {
+  kind: RecordKind;
+  /** File path or table/row the record was read from */
+  location: string;
+  data?: unknown;
+  /** Set when the record could not be parsed */
+  error?: string;
+}
+
+export interface StorageReader {
+  /** Storage layout name, e.g. "json" or "sqlite" */
+  name: string;
+  /** OpenCode data directory this reader was created for */
+  dataPath: string;
+  isAvailable(): Promise<boolean>;
+  readSessions(): Promise<SessionData[]>;
+  readMessages(): Promise<MessageData[]>;
+  readProjects(): Promise<ProjectData[]>;
+  /** Read message parts, optionally limited to the given message ids */
+  readParts(messageIDs?: Set<string>): Promise<PartData[]>;
+  /** Read every session, message and project record without dropping malformed ones */
+  scanRecords(): Promise<RawRecord[]>;
+}
+
+export interface StorageReaderOptions {
+  /** Index of previously parsed files, used by file-based layouts to skip unchanged files */
+  cache?: FileCache;
+}
+
+export type StorageReaderFactory = (dataPath: string, options?: StorageReaderOptions) => StorageReader;
@@ -40,7 +40,26 @@ export interface MessageData {
       write: number;
     };
   };
-  finish?: string;
+  finish?: string; // "stop", "tool-calls", "length", "error", ...
+  error?: {
+    name: string; // "MessageAbortedError" when the user interrupted the turn, "MessageOutputLengthError" when cut off
+  };
+}
+
+export interface PartData {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: string; // "text", "tool", "reasoning", "file", "patch", "step-start", "step-finish", ...
+  tool?: string;
+  callID?: string;
+  state?: {
+    status: "pending" | "running" | "completed" | "error";
+    time?: {
+      start: number;
+      end?: number;
+    };
+  };
 }
 
 export interface ProjectData {
@@ -55,14 +74,157 @@ export interface ProjectData {
   };
 }
 
+export interface DataSourceSummary {
+  dataPath: string;
+  storage: string;
+  sessions: number;
+  messages: number;
+  projects: number;
+}
+
+export interface CollectionInfo {
+  durationMs: number;
+  filesParsed: number; // Files read from disk (new or changed since the last run)
+  filesCached: number; // Files served from the on-disk index
+}
+
+export interface ModelsSource {
+  // Fetched this run, an on-disk cache from an earlier run, the snapshot bundled at build time, or nothing
+  kind: "live" | "cache" | "snapshot" | "none";
+  fetchedAt: number | null; // Unix ms the models.dev data was fetched, null for "none"
+}
+
 export interface ModelStats {
-  id: string;
+  id: string; // Model family, the same across providers (see getModelFamily)
   name: string;
   providerId: string;
   count: number;
   percentage: number;
 }
 
+export interface ToolStats {
+  name: string;
+  count: number;
+  percentage: number;
+}
+
+export interface LatencyStats {
+  id: string;
+  name: string;
+  count: number; // Completed assistant messages
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  tokensPerSecond: number | null; // Output tokens per second of generation, null without token counts
+}
+
+export interface ModelCacheStats {
+  id: string;
+  name: string;
+  inputTokens: number;
+  cacheReadTokens: number;
+  hitRate: number; // 0-1, cache read / (input + cache read)
+}
+
+export interface CacheStats {
+  readTokens: number;
+  writeTokens: number;
+  hitRate: number; // 0-1, cache read / (input + cache read)
+  savings: number; // Dollars saved by cache reads compared with full input pricing
+  byModel: ModelCacheStats[]; // Sorted by cache read tokens
+}
+
+export interface FinishReasonStats {
+  id: string;
+  name: string;
+  total: number; // Assistant messages
+  reasons: Record<string, number>; // Finish reason -> messages, plus "aborted" for interrupted turns
+  truncationRate: number; // 0-1, share of messages cut off by the output limit
+}
+
+export interface FinishStats {
+  total: number; // Assistant messages
+  reasons: Record<string, number>; // Finish reason -> messages, plus "aborted" for interrupted turns
+  aborted: number;
+  errors: number;
+  truncated: number; // Finish reason "length"
+  truncationRate: number; // 0-1
+  byModel: FinishReasonStats[]; // Sorted by messages
+  byProvider: FinishReasonStats[]; // Sorted by messages
+}
+
+export interface MonthlyTotals {
+  messages: number;
+  sessions: number;
+  tokens: number; // Input + output + reasoning
+  cost: number; // Zen cost plus estimated cost
+}
+
+export interface MonthlyStats extends MonthlyTotals {
+  month: string; // "YYYY-MM"
+  label: string; // "Jan"
+  // Change from the previous month (1.5 = +150%), null for the first month or when the previous month was 0
+  growth: { [K in keyof MonthlyTotals]: number | null };
+}
+
+export interface YearlyStats extends MonthlyTotals {
+  year: number;
+}
+
+export interface SpendStats {
+  asOf: string; // "YYYY-MM-DD", the day forecasts are made from (today)
+  dailyAverage: number; // Run rate over the last 30 days of the range
+  // To date and forecast totals, null when the range starts after the 1st of the month / Jan 1
+  monthToDate: number | null;
+  monthForecast: number | null;
+  yearToDate: number | null;
+  yearForecast: number | null;
+  budget: number | null; // Monthly budget in USD from --budget
+  overBudget: boolean; // Month forecast exceeds the budget
+}
+
+export interface Achievement {
+  id: string;
+  name: string; // "Centurion"
+  description: string; // "Used OpenCode 100 days in a row"
+  unlockedAt: string; // "YYYY-MM-DD", the day it was earned
+  formattedDate: string; // "Mar 3, 2025"
+}
+
+export interface Persona {
+  id: string; // Trait ids joined, e.g. "night-owl-architect"
+  name: string; // "Night Owl Architect"
+  description: string; // One-line explanation of the traits
+  traits: string[];
+}
+
+export interface ProjectStats {
+  id: string;
+  name: string; // Worktree path, its last segment or "Project N", depending on ProjectNameMode
+  sessions: number;
+  messages: number;
+  tokens: number;
+  cost: number; // Zen cost plus estimated cost
+}
+
+export interface AgentStats {
+  id: string; // Agent as stored on messages, e.g. "build", "plan" or a custom agent
+  name: string;
+  builtIn: boolean; // Shipped with OpenCode, as opposed to user-defined
+  messages: number; // Assistant messages
+  tokens: number;
+  cost: number; // Zen cost plus estimated cost
+  messageShare: number; // 0-1
+  tokenShare: number; // 0-1
+  costShare: number; // 0-1
+}
+
+// How project names appear in stats: full path, last path segment, or hidden
+export type ProjectNameMode = "full" | "name" | "hidden";
+
+// What the activity heatmap colors days by: message count or cost in USD
+export type HeatmapMetric = "messages" | "cost";
+
 export interface ProviderStats {
   id: string;
   name: string;
@@ -70,8 +232,17 @@ export interface ProviderStats {
   percentage: number;
 }
 
+export interface DateRange {
+  kind: "year" | "month" | "week" | "custom" | "all";
+  start: string; // "YYYY-MM-DD", inclusive
+  end: string; // "YYYY-MM-DD", inclusive
+  year: number; // Year the range ends in
+  label: string; // "2025", "June 2025", "Week of Jun 8, 2025", "Jan 1 – Mar 31, 2025" or "2024 – 2026"
+}
+
 export interface OpenCodeStats {
   year: number;
+  range: DateRange;
 
   // Time-based
   firstSessionDate: Date;
@@ -80,12 +251,18 @@ export interface OpenCodeStats {
   // Counts
   totalSessions: number;
   totalMessages: number;
-  totalProjects: number;
+  totalProjects: number; // Projects with activity in the range
+  totalModels: number; // Distinct model families that answered messages, see getModelFamily
 
   // Tokens
   totalInputTokens: number;
   totalOutputTokens: number;
-  totalTokens: number;
+  totalReasoningTokens: number;
+  totalCacheTokens: number; // Cache reads and writes
+  totalTokens: number; // Input + output + reasoning
+
+  // Prompt caching
+  cache: CacheStats;
 
   // Cost (only from OpenCode Zen provider)
   zenCost: number;
@@ -98,13 +275,52 @@ export interface OpenCodeStats {
   // Providers (sorted by usage)
   topProviders: ProviderStats[];
 
+  // Response latency of assistant messages (sorted by p50, fastest first)
+  modelLatency: LatencyStats[];
+  providerLatency: LatencyStats[];
+
+  // How assistant turns ended
+  finish: FinishStats;
+
+  // Projects active in the range (sorted by messages)
+  projects: ProjectStats[];
+  projectNames: ProjectNameMode;
+
+  // Agents and modes that answered messages, including subagents (sorted by messages)
+  agents: AgentStats[];
+
+  // Tools (from message parts, sorted by usage)
+  topTools: ToolStats[];
+  totalToolCalls: number;
+  toolErrorRate: number; // 0-1, share of tool calls that ended in an error
+  avgToolCallsPerMessage: number; // Per assistant message
+
+  // Active time, estimated from message timestamps
+  sessionTime: SessionTimeStats;
+
   // Streak
   maxStreak: number;
   currentStreak: number;
   maxStreakDays: Set<string>; // Days that form the max streak (for heatmap highlighting)
 
-  // Activity heatmap (for the year)
+  // Achievements earned by the end of the range, including before it (sorted by unlock date)
+  achievements: Achievement[];
+
+  // "You are X" archetype, classified from the rest of these stats
+  persona: Persona;
+
+  // Month-by-month totals, one entry per month the range overlaps
+  monthly: MonthlyStats[];
+  // Totals per calendar year the range overlaps
+  yearly: YearlyStats[];
+
+  // Activity heatmap (for the range)
   dailyActivity: Map<string, number>; // "2025-01-15" -> count
+  dailyCost: Map<string, number>; // "2025-01-15" -> Zen cost plus estimated cost, days with spend only
+  heatmapMetric: HeatmapMetric;
+
+  // Month-to-date spend and forecasts, null when the range doesn't include today
+  spend: SpendStats | null;
 
   // Most active day
   mostActiveDay: {
@@ -115,6 +331,26 @@ export interface OpenCodeStats {
 
   // Weekday activity distribution (0=Sunday, 6=Saturday)
   weekdayActivity: WeekdayActivity;
+
+  // Hour-of-day activity distribution (0=midnight, 23=11pm)
+  hourActivity: HourActivity;
+
+  // Message counts by weekday (rows, 0=Sunday) and hour of day (columns, 0-23)
+  weekdayHourActivity: number[][];
+  // Zen cost plus estimated cost, laid out like weekdayHourActivity
+  weekdayHourCost: number[][];
+
+  // Records contributed by each data directory (after deduplication)
+  sources: DataSourceSummary[];
+
+  // Collection timing and file index usage
+  collection: CollectionInfo;
+
+  // Where model names and prices came from
+  modelsSource: ModelsSource;
+
+  // Stats for the period being compared against (e.g. the previous month), if any
+  comparison?: OpenCodeStats;
 }
 
 export interface WeekdayActivity {
@@ -124,6 +360,32 @@ export interface WeekdayActivity {
   maxCount: number;
 }
 
+export interface SessionLengthBucket {
+  label: string; // "<5m", "1-2h", ...
+  count: number;
+}
+
+export interface SessionTimeStats {
+  totalActiveMs: number;
+  longestSession: {
+    id: string;
+    title: string;
+    activeMs: number;
+  } | null;
+  medianSessionMs: number;
+  histogram: SessionLengthBucket[]; // Sessions by active time, shortest bucket first
+}
+
+export type Chronotype = "early-bird" | "night-owl" | "daytime";
+
+export interface HourActivity {
+  counts: number[]; // 24 entries, one per hour of day
+  peakHour: number;
+  peakHourLabel: string; // "3pm"
+  maxCount: number;
+  chronotype: Chronotype;
+}
+
 export interface CliArgs {
   year?: number;
   help?: boolean;
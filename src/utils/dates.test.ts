@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { addDays, formatDateKey, resolveDateRange, setTimeZone, toZonedTime } from "./dates";
+
+const at = (iso: string) => new Date(iso).getTime();
+
+/** Wall-clock time of an instant in the configured zone, as "YYYY-MM-DD HH:MM" */
+function wallClock(iso: string): string {
+  return toZonedTime(at(iso)).toISOString().slice(0, 16).replace("T", " ");
+}
+
+afterEach(() => setTimeZone(undefined));
+
+describe("toZonedTime", () => {
+  test("skips the missing hour when New York springs forward", () => {
+    setTimeZone("America/New_York");
+    expect(wallClock("2025-03-09T06:59:00Z")).toBe("2025-03-09 01:59");
+    expect(wallClock("2025-03-09T07:00:00Z")).toBe("2025-03-09 03:00");
+  });
+
+  test("repeats the hour when New York falls back", () => {
+    setTimeZone("America/New_York");
+    expect(wallClock("2025-11-02T05:30:00Z")).toBe("2025-11-02 01:30");
+    expect(wallClock("2025-11-02T06:30:00Z")).toBe("2025-11-02 01:30");
+    expect(wallClock("2025-11-02T07:00:00Z")).toBe("2025-11-02 02:00");
+  });
+
+  test("handles the 30-minute shift of Lord Howe Island", () => {
+    setTimeZone("Australia/Lord_Howe");
+    // +10:30 -> +11:00 on 2025-10-05 at 2:00 local
+    expect(wallClock("2025-10-04T15:29:00Z")).toBe("2025-10-05 01:59");
+    expect(wallClock("2025-10-04T15:30:00Z")).toBe("2025-10-05 02:30");
+    // +11:00 -> +10:30 on 2025-04-06 at 2:00 local
+    expect(wallClock("2025-04-05T14:59:00Z")).toBe("2025-04-06 01:59");
+    expect(wallClock("2025-04-05T15:00:00Z")).toBe("2025-04-06 01:30");
+  });
+});
+
+describe("formatDateKey", () => {
+  test("splits days at local midnight around the New York transitions", () => {
+    setTimeZone("America/New_York");
+    // Midnight before spring-forward is still EST (-5), the one after is EDT (-4)
+    expect(formatDateKey(new Date("2025-03-09T04:59:00Z"))).toBe("2025-03-08");
+    expect(formatDateKey(new Date("2025-03-09T05:00:00Z"))).toBe("2025-03-09");
+    expect(formatDateKey(new Date("2025-03-10T03:59:00Z"))).toBe("2025-03-09");
+    expect(formatDateKey(new Date("2025-03-10T04:00:00Z"))).toBe("2025-03-10");
+    // Midnight before fall-back is EDT, the one after is EST
+    expect(formatDateKey(new Date("2025-11-02T03:59:00Z"))).toBe("2025-11-01");
+    expect(formatDateKey(new Date("2025-11-02T04:00:00Z"))).toBe("2025-11-02");
+    expect(formatDateKey(new Date("2025-11-03T04:59:00Z"))).toBe("2025-11-02");
+    expect(formatDateKey(new Date("2025-11-03T05:00:00Z"))).toBe("2025-11-03");
+  });
+
+  test("splits days at local midnight around the Lord Howe transition", () => {
+    setTimeZone("Australia/Lord_Howe");
+    expect(formatDateKey(new Date("2025-10-04T13:29:00Z"))).toBe("2025-10-04");
+    expect(formatDateKey(new Date("2025-10-04T13:30:00Z"))).toBe("2025-10-05");
+    expect(formatDateKey(new Date("2025-10-05T12:59:00Z"))).toBe("2025-10-05");
+    expect(formatDateKey(new Date("2025-10-05T13:00:00Z"))).toBe("2025-10-06");
+  });
+
+  test("puts the year boundary at local midnight", () => {
+    setTimeZone("America/New_York");
+    expect(formatDateKey(new Date("2025-01-01T04:59:00Z"))).toBe("2024-12-31");
+    expect(formatDateKey(new Date("2025-01-01T05:00:00Z"))).toBe("2025-01-01");
+
+    setTimeZone("Asia/Tokyo");
+    expect(formatDateKey(new Date("2024-12-31T14:59:00Z"))).toBe("2024-12-31");
+    expect(formatDateKey(new Date("2024-12-31T15:00:00Z"))).toBe("2025-01-01");
+  });
+});
+
+describe("addDays", () => {
+  test("steps over DST transitions one calendar day at a time", () => {
+    setTimeZone("America/New_York");
+    expect(addDays("2025-03-08", 1)).toBe("2025-03-09");
+    expect(addDays("2025-03-09", 1)).toBe("2025-03-10");
+    expect(addDays("2025-11-02", -1)).toBe("2025-11-01");
+  });
+
+  test("crosses year ends and leap days", () => {
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2025-01-01", -1)).toBe("2024-12-31");
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+  });
+});
+
+describe("resolveDateRange with --last", () => {
+  const last = (window: string, today: string) => {
+    const { start, end } = resolveDateRange({ last: window }, new Date(`${today}T12:00:00Z`));
+    return `${start} – ${end}`;
+  };
+
+  beforeEach(() => setTimeZone("UTC"));
+
+  test("counts days and weeks back from today, inclusive", () => {
+    expect(last("1d", "2025-03-31")).toBe("2025-03-31 – 2025-03-31");
+    expect(last("30d", "2025-03-31")).toBe("2025-03-02 – 2025-03-31");
+    expect(last("2w", "2025-01-07")).toBe("2024-12-25 – 2025-01-07");
+  });
+
+  test("clamps months to the last day of shorter months", () => {
+    expect(last("1m", "2025-03-31")).toBe("2025-03-01 – 2025-03-31");
+    expect(last("1m", "2024-03-31")).toBe("2024-03-01 – 2024-03-31");
+    expect(last("1m", "2025-05-31")).toBe("2025-05-01 – 2025-05-31");
+    expect(last("3m", "2025-05-31")).toBe("2025-03-01 – 2025-05-31");
+    expect(last("1m", "2025-03-15")).toBe("2025-02-16 – 2025-03-15");
+    expect(last("1m", "2025-01-31")).toBe("2025-01-01 – 2025-01-31");
+  });
+
+  test("clamps years on Feb 29", () => {
+    expect(last("1y", "2024-02-29")).toBe("2023-03-01 – 2024-02-29");
+    expect(last("4y", "2024-02-29")).toBe("2020-03-01 – 2024-02-29");
+    expect(last("1y", "2025-06-10")).toBe("2024-06-11 – 2025-06-10");
+  });
+});
@@ -1,66 +1,140 @@
-// Date utilities for heatmap generation
+// Date utilities for date ranges and heatmap generation
 
-export function generateWeeksForYear(year: number): string[][] {
-  const weeks: string[][] = [];
+import type { DateRange } from "../types";
 
-  // Start from Jan 1st of the year
-  const startDate = new Date(year, 0, 1);
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const MONTH_NAMES_FULL = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
 
-  // Adjust to start from the first Sunday (or the day itself if it's Sunday)
-  const startDay = startDate.getDay();
-  const adjustedStart = new Date(startDate);
-  if (startDay !== 0) {
-    adjustedStart.setDate(startDate.getDate() - startDay);
-  }
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const EPOCH_DATE_KEY = "1970-01-01";
+const MONTH_KEY_PATTERN = /^(\d{4})-(\d{2})$/;
+const RELATIVE_WINDOW_PATTERN = /^(\d+)([dwmy])$/;
 
-  // End date is Dec 31st or today if it's the current year
-  const now = new Date();
-  const isCurrentYear = year === now.getFullYear();
-  const endDate = isCurrentYear ? now : new Date(year, 11, 31);
+// Every time zone offset is a whole multiple of 15 minutes, so offsets are cached per 15-minute slot
+const OFFSET_SLOT_MS = 15 * 60 * 1000;
 
-  let currentDate = new Date(adjustedStart);
-  let currentWeek: string[] = [];
+// Time zone used to bucket timestamps into days and hours, undefined for the host's zone
+let timeZone: string | undefined;
+let zoneFormatter: Intl.DateTimeFormat | undefined;
+const zoneOffsets = new Map<number, number>();
 
-  while (currentDate <= endDate || currentWeek.length > 0) {
-    const dayOfWeek = currentDate.getDay();
+/**
+ * Bucket timestamps into days, weekdays and hours in an IANA time zone instead of the host's
+ *
+ * @throws Error with a user-facing message when the zone is unknown
+ */
+export function setTimeZone(zone: string | undefined): void {
+  let formatter: Intl.DateTimeFormat | undefined;
+  if (zone !== undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: zone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      });
+    } catch {
+      throw new Error(`Invalid --tz "${zone}", expected an IANA time zone like Europe/Berlin`);
+    }
+  }
 
-    // Format date as YYYY-MM-DD
-    const dateStr = formatDateKey(currentDate);
+  timeZone = zone;
+  zoneFormatter = formatter;
+  zoneOffsets.clear();
+}
 
-    // Only include dates within the year
-    if (currentDate.getFullYear() === year && currentDate <= endDate) {
-      currentWeek.push(dateStr);
-    } else if (currentDate.getFullYear() === year) {
-      // Pad with empty strings for dates outside range but in the week
-      currentWeek.push("");
-    }
+export function getTimeZone(): string | undefined {
+  return timeZone;
+}
 
-    // If it's Saturday (end of week) or we've passed the end date
-    if (dayOfWeek === 6) {
-      if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
-        weeks.push(currentWeek);
-      }
-      currentWeek = [];
+/** Offset of the configured zone from UTC at the given instant, in milliseconds */
+function getZoneOffset(timestamp: number): number {
+  if (!zoneFormatter) {
+    return -new Date(timestamp).getTimezoneOffset() * 60 * 1000;
+  }
+
+  const slot = Math.floor(timestamp / OFFSET_SLOT_MS) * OFFSET_SLOT_MS;
+  let offset = zoneOffsets.get(slot);
+  if (offset === undefined) {
+    const parts: Record<string, number> = {};
+    for (const part of zoneFormatter.formatToParts(slot)) {
+      parts[part.type] = Number(part.value);
     }
+    offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - slot;
+    zoneOffsets.set(slot, offset);
+  }
+  return offset;
+}
 
-    currentDate.setDate(currentDate.getDate() + 1);
+/**
+ * Shift a timestamp to the configured zone's wall-clock time.
+ * Read the result with the `getUTC*` methods, e.g. `getUTCDay()` for its weekday.
+ */
+export function toZonedTime(timestamp: number): Date {
+  return new Date(timestamp + getZoneOffset(timestamp));
+}
 
-    // Safety: stop if we've gone too far past the year
-    if (currentDate.getFullYear() > year + 1) break;
-  }
+/**
+ * Split a date range into Sunday-first week columns for the heatmap.
+ * Days of the first and last week that fall outside the range (or after today, unless
+ * `includeFuture` is set) are empty strings.
+ */
+export function generateWeeks(range: DateRange, includeFuture = false): string[][] {
+  const weeks: string[][] = [];
+
+  const today = formatDateKey(new Date());
+  const lastDay = includeFuture || range.end < today ? range.end : today;
+
+  // Start from the Sunday on or before the first day of the range
+  const currentDate = parseDateKey(range.start);
+  currentDate.setUTCDate(currentDate.getUTCDate() - currentDate.getUTCDay());
+
+  let currentWeek: string[] = [];
 
-  // Add any remaining days
-  if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
-    weeks.push(currentWeek);
+  while (true) {
+    const dateStr = toDateKey(currentDate);
+    if (dateStr > lastDay && currentDate.getUTCDay() === 0) break;
+
+    currentWeek.push(dateStr >= range.start && dateStr <= lastDay ? dateStr : "");
+
+    // Saturday ends the week
+    if (currentDate.getUTCDay() === 6) {
+      weeks.push(currentWeek);
+      currentWeek = [];
+    }
+
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
   }
 
   return weeks;
 }
 
+/** The day an instant falls on in the configured zone, as "YYYY-MM-DD" */
 export function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
+  return toDateKey(toZonedTime(date.getTime()));
+}
+
+/** Format the UTC calendar date of a Date from `parseDateKey` or `toZonedTime` */
+function toDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
   return `${year}-${month}-${day}`;
 }
 
@@ -79,21 +153,314 @@ export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 |
   return 6;
 }
 
-export function isWrappedAvailable(year: number): { available: boolean; message?: string | string[] } {
-  const now = new Date();
-  const currentYear = now.getFullYear();
+/**
+ * Parse a "YYYY-MM-DD" key as UTC midnight, so day arithmetic never crosses a DST change.
+ * Read the result with the `getUTC*` methods.
+ */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+export function isDateKeyInRange(key: string, range: DateRange): boolean {
+  return key >= range.start && key <= range.end;
+}
+
+export function isTimestampInRange(timestamp: number, range: DateRange): boolean {
+  return isDateKeyInRange(toDateKey(toZonedTime(timestamp)), range);
+}
+
+export function getYearRange(year: number): DateRange {
+  return {
+    kind: "year",
+    start: `${year}-01-01`,
+    end: `${year}-12-31`,
+    year,
+    label: String(year),
+  };
+}
+
+/**
+ * Everything from `start` up to today, labeled with the years it spans. Before the data is read the
+ * first session isn't known, so the range starts at the epoch and is narrowed later.
+ */
+export function getAllTimeRange(start: string = EPOCH_DATE_KEY, now: Date = new Date()): DateRange {
+  const end = formatDateKey(now);
+  const startYear = start.slice(0, 4);
+  const endYear = end.slice(0, 4);
+  return {
+    kind: "all",
+    start,
+    end,
+    year: Number(endYear),
+    label: start === EPOCH_DATE_KEY ? "All Time" : startYear === endYear ? `All Time ${endYear}` : `${startYear} – ${endYear}`,
+  };
+}
+
+/** Calendar month range, e.g. "June 2025" */
+export function getMonthRange(year: number, month: number): DateRange {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const monthKey = `${year}-${String(month + 1).padStart(2, "0")}`;
+  return {
+    kind: "month",
+    start: `${monthKey}-01`,
+    end: `${monthKey}-${String(lastDay).padStart(2, "0")}`,
+    year,
+    label: `${MONTH_NAMES_FULL[month]} ${year}`,
+  };
+}
+
+/** Sunday-to-Saturday week containing the given day, matching the heatmap's week columns */
+export function getWeekRange(dateKey: string): DateRange {
+  const start = addDays(dateKey, -parseDateKey(dateKey).getUTCDay());
+  const startDate = parseDateKey(start);
+  return {
+    kind: "week",
+    start,
+    end: addDays(start, 6),
+    year: Number(addDays(start, 6).slice(0, 4)),
+    label: `Week of ${MONTH_NAMES[startDate.getUTCMonth()]} ${startDate.getUTCDate()}, ${startDate.getUTCFullYear()}`,
+  };
+}
+
+/** Calendar months overlapping the range, as "YYYY-MM" keys with short labels like "Jun" */
+export function getMonthsInRange(range: DateRange): { key: string; label: string }[] {
+  const months: { key: string; label: string }[] = [];
+  const end = range.end.slice(0, 7);
+  const start = parseDateKey(range.start);
+
+  for (let i = 0; ; i++) {
+    const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1));
+    const key = toDateKey(date).slice(0, 7);
+    if (key > end) break;
+    months.push({ key, label: MONTH_NAMES[date.getUTCMonth()] });
+  }
+
+  return months;
+}
+
+/** The period right before a month or week range, used to show period-over-period changes */
+export function getPreviousRange(range: DateRange): DateRange | undefined {
+  switch (range.kind) {
+    case "month": {
+      const start = parseDateKey(range.start);
+      const previous = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - 1, 1));
+      return getMonthRange(previous.getUTCFullYear(), previous.getUTCMonth());
+    }
+    case "week":
+      return getWeekRange(addDays(range.start, -7));
+    default:
+      return undefined;
+  }
+}
+
+/** Format a range as "Jan 1 – Mar 31, 2025" or "Dec 1, 2024 – Jan 31, 2025" */
+export function formatRangeLabel(start: string, end: string): string {
+  const sameYear = start.slice(0, 4) === end.slice(0, 4);
+  return `${formatDayLabel(start, !sameYear)} – ${formatDayLabel(end, true)}`;
+}
+
+/** Format a date key as "Mar 31" or "Mar 31, 2025" */
+export function formatDayLabel(key: string, withYear = false): string {
+  const date = parseDateKey(key);
+  const label = `${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCDate()}`;
+  return withYear ? `${label}, ${date.getUTCFullYear()}` : label;
+}
+
+function createCustomRange(start: string, end: string): DateRange {
+  return {
+    kind: "custom",
+    start,
+    end,
+    year: Number(end.slice(0, 4)),
+    label: formatRangeLabel(start, end),
+  };
+}
+
+function parseDateOption(name: string, value: string): string {
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (match) {
+    // Reject dates like 2025-02-30 that roll over into the next month
+    if (toDateKey(parseDateKey(value)) === value) {
+      return value;
+    }
+  }
+  throw new Error(`Invalid --${name} date "${value}", expected YYYY-MM-DD`);
+}
+
+function parseYearOption(name: string, value: string): number {
+  const year = Number(value);
+  if (!/^\d{4}$/.test(value) || year < 1970) {
+    throw new Error(`Invalid --${name} "${value}", expected YYYY`);
+  }
+  return year;
+}
+
+/** Resolve a rolling window like "30d", "12w", "6m" or "1y" ending today (inclusive) */
+function parseRelativeWindow(value: string, now: Date): DateRange {
+  const match = RELATIVE_WINDOW_PATTERN.exec(value);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid --last window "${value}", expected e.g. 30d, 12w, 6m or 1y`);
+  }
+
+  const amount = Number(match[1]);
+  const end = formatDateKey(now);
+  const start = parseDateKey(end);
+
+  switch (match[2]) {
+    case "d":
+      start.setUTCDate(start.getUTCDate() - amount + 1);
+      break;
+    case "w":
+      start.setUTCDate(start.getUTCDate() - amount * 7 + 1);
+      break;
+    case "m":
+    case "y": {
+      // Same day N months back, clamped to the end of shorter months (Mar 31 - 1m is Feb 28)
+      const day = start.getUTCDate();
+      start.setUTCDate(1);
+      start.setUTCMonth(start.getUTCMonth() - (match[2] === "m" ? amount : amount * 12));
+      const lastDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+      start.setUTCDate(Math.min(day, lastDay) + 1);
+      break;
+    }
+  }
+
+  return createCustomRange(toDateKey(start), end);
+}
+
+export interface DateRangeOptions {
+  year?: string;
+  since?: string;
+  until?: string;
+  last?: string;
+  period?: string;
+  date?: string;
+  "all-time"?: boolean;
+}
+
+/** Resolve --period month|week, optionally anchored on --date (default: today) */
+function resolvePeriod(period: string, date: string | undefined, now: Date): DateRange {
+  if (period === "month") {
+    const monthMatch = date !== undefined ? MONTH_KEY_PATTERN.exec(date) : null;
+    if (monthMatch) {
+      const month = Number(monthMatch[2]) - 1;
+      if (month < 0 || month > 11) {
+        throw new Error(`Invalid --date month "${date}", expected YYYY-MM`);
+      }
+      return getMonthRange(Number(monthMatch[1]), month);
+    }
+
+    const day = parseDateKey(date !== undefined ? parseDateOption("date", date) : formatDateKey(now));
+    return getMonthRange(day.getUTCFullYear(), day.getUTCMonth());
+  }
+
+  if (period === "week") {
+    return getWeekRange(date !== undefined ? parseDateOption("date", date) : formatDateKey(now));
+  }
+
+  throw new Error(`Invalid --period "${period}", expected month or week`);
+}
+
+/**
+ * Resolve the --year, --since/--until, --last, --period/--date and --all-time options into a date range
+ *
+ * @throws Error with a user-facing message when options are invalid or conflict
+ */
+export function resolveDateRange(options: DateRangeOptions, now: Date = new Date()): DateRange {
+  const { year, since, until, last, period, date } = options;
+  const hasCustomRange = since !== undefined || until !== undefined;
+
+  if (options["all-time"]) {
+    if (year !== undefined || hasCustomRange || last !== undefined || period !== undefined) {
+      throw new Error("--all-time can't be combined with --year, --since, --until, --last or --period");
+    }
+    if (date !== undefined) {
+      throw new Error("--date can only be used with --period");
+    }
+    return getAllTimeRange(undefined, now);
+  }
+
+  if (period !== undefined) {
+    if (year !== undefined || hasCustomRange || last !== undefined) {
+      throw new Error("--period can't be combined with --year, --since, --until or --last");
+    }
+    return resolvePeriod(period, date, now);
+  }
+  if (date !== undefined) {
+    throw new Error("--date can only be used with --period");
+  }
+
+  if (year !== undefined && (hasCustomRange || last !== undefined)) {
+    throw new Error("--year can't be combined with --since, --until or --last");
+  }
+  if (last !== undefined && hasCustomRange) {
+    throw new Error("--last can't be combined with --since or --until");
+  }
+
+  if (last !== undefined) {
+    return parseRelativeWindow(last, now);
+  }
+
+  if (hasCustomRange) {
+    const end = until !== undefined ? parseDateOption("until", until) : formatDateKey(now);
+    // Without --since, start at the beginning of the --until year
+    const start = since !== undefined ? parseDateOption("since", since) : `${end.slice(0, 4)}-01-01`;
+    if (start > end) {
+      throw new Error(`--since ${start} is after --until ${end}`);
+    }
+    return createCustomRange(start, end);
+  }
+
+  if (year !== undefined) {
+    return getYearRange(parseYearOption("year", year));
+  }
+
+  return getYearRange(Number(formatDateKey(now).slice(0, 4)));
+}
+
+/**
+ * The range to compare against: the year given with --compare, or the previous month or week
+ *
+ * @throws Error with a user-facing message when --compare is invalid for the range
+ */
+export function resolveComparisonRange(range: DateRange, compare: string | undefined): DateRange | undefined {
+  if (compare === undefined) {
+    return getPreviousRange(range);
+  }
+  if (range.kind !== "year") {
+    throw new Error("--compare can only be used with a yearly wrapped");
+  }
+
+  const year = parseYearOption("compare", compare);
+  if (year === range.year) {
+    throw new Error(`--compare ${compare} is the year being wrapped, pick another year`);
+  }
+  return getYearRange(year);
+}
+
+export function isWrappedAvailable(range: DateRange): { available: boolean; message?: string | string[] } {
+  const today = formatDateKey(new Date());
 
-  if (year < currentYear) {
+  if (range.start <= today) {
     return { available: true };
   }
 
-  if (year > currentYear) {
+  if (range.kind === "year") {
     return {
       available: false,
-      message: `OpenCode Wrapped ${year} isn't available yet. The future hasn't been written!`,
+      message: `OpenCode Wrapped ${range.year} isn't available yet. The future hasn't been written!`,
     };
   }
 
-  // Current year - always available
-  return { available: true };
+  return {
+    available: false,
+    message: `The range ${range.label} starts in the future. The future hasn't been written!`,
+  };
 }
@@ -1,5 +1,8 @@
 // Number and text formatting utilities
 
+import type { ModelsSource } from "../types";
+import { getTimeZone } from "./dates";
+
 const compactFormatter = new Intl.NumberFormat("en-US", {
   notation: "compact",
   maximumFractionDigits: 1,
@@ -19,17 +22,6 @@ const currencyCompactFormatter = new Intl.NumberFormat("en-US", {
   maximumFractionDigits: 1,
 });
 
-const dateFormatter = new Intl.DateTimeFormat("en-US", {
-  month: "long",
-  day: "numeric",
-  year: "numeric",
-});
-
-const shortDateFormatter = new Intl.DateTimeFormat("en-US", {
-  month: "short",
-  day: "numeric",
-});
-
 export function formatNumber(num: number): string {
   return compactFormatter.format(num);
 }
@@ -41,10 +33,110 @@ export function formatCost(cost: number): string {
   return currencyFormatter.format(cost);
 }
 
+// Dates are shown in the --tz zone, which is only known once options are parsed
 export function formatDate(date: Date): string {
-  return dateFormatter.format(date);
+  return date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: getTimeZone() });
 }
 
 export function formatShortDate(date: Date): string {
-  return shortDateFormatter.format(date);
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: getTimeZone() });
+}
+
+/** Format a duration as a number of hours, e.g. "0.5", "7.2" or "1.3K" */
+export function formatHours(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  return hours < 10 ? hours.toFixed(1) : formatNumber(Math.round(hours));
+}
+
+/** Format a duration as "2h 15m", "45m" or "<1m" */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / (60 * 1000));
+  if (totalMinutes < 1) return "<1m";
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+/** Format how long ago something happened as "just now", "45m ago", "3h ago" or "12d ago" */
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / (60 * 1000));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+/** Format a response time as "850ms", "3.2s" or "1m 5s" */
+export function formatLatency(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60 * 1000) return `${(ms / 1000).toFixed(1)}s`;
+
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** Format an hour of day as "12am", "9am" or "3pm" */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "am" : "pm";
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+/**
+ * Format the relative change from `previous` to `current`, e.g. "+240%" or "-12%"
+ *
+ * @returns undefined when there is nothing to compare against
+ */
+export function formatDelta(current: number, previous: number): string | undefined {
+  if (previous === 0) {
+    return undefined;
+  }
+
+  const change = ((current - previous) / previous) * 100;
+  const rounded = Math.abs(change) >= 10 ? Math.round(change) : Math.round(change * 10) / 10;
+  if (rounded === 0) {
+    return "0%";
+  }
+  return `${rounded > 0 ? "+" : "-"}${Math.abs(rounded)}%`;
+}
+
+/** Shorten text to `maxLength` characters, ending with an ellipsis when cut */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/** Shorten a path to `maxLength` characters by cutting from the start, keeping its last segments */
+export function truncatePath(path: string, maxLength: number): string {
+  return path.length > maxLength ? `…${path.slice(path.length - maxLength + 1)}` : path;
+}
+
+/**
+ * Describe how a ranked item moved against the comparison period, e.g. "up from #3 in 2024"
+ *
+ * @param previousRank - 1-based rank in the comparison period, undefined when it wasn't ranked
+ */
+export function formatRankChange(rank: number, previousRank: number | undefined, label: string): string {
+  if (previousRank === undefined) {
+    return `not ranked in ${label}`;
+  }
+  if (previousRank === rank) {
+    return `same as ${label}`;
+  }
+  return `${previousRank > rank ? "up" : "down"} from #${previousRank} in ${label}`;
+}
+
+/** Where model names and prices came from and how old they are, e.g. "models.dev (cached 3h ago)" */
+export function formatModelsSource({ kind, fetchedAt }: ModelsSource): string {
+  const age = fetchedAt !== null ? formatAge(Date.now() - fetchedAt) : "";
+  switch (kind) {
+    case "live":
+      return "models.dev (fetched just now)";
+    case "cache":
+      return `models.dev (cached ${age})`;
+    case "snapshot":
+      return `bundled models.dev snapshot (${age})`;
+    case "none":
+      return "models.dev unavailable, only Zen and overridden prices are used";
+  }
 }